@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { TICKS_PER_SECOND } from '../src/constants';
+import { LEVELS } from '../src/game/levelPack';
+import { parseAscii } from '../src/game/levels';
+import { modeRules } from '../src/game/modes';
+import { Replay, ReplayRecorder } from '../src/game/replay';
+import { Random } from '../src/game/rng';
+import { RULE_PRESETS } from '../src/game/rules';
+import { GameSimulation } from '../src/game/simulation';
+import { Direction } from '../src/game/types';
+import { RunSubmission, checkRun, verifyRun } from './antiCheat';
+
+const RUN: RunSubmission = {
+  name: 'Ada',
+  score: 1200,
+  level: 1,
+  durationSeconds: 90,
+  mapId: LEVELS[0].id,
+  mode: 'classic',
+  difficulty: 'normal',
+};
+
+// One corridor: five pellets and a power pellet, with no ghosts to eat
+const CORRIDOR = parseAscii([
+  '########',
+  '#P....o#',
+  '########',
+]);
+
+describe('checkRun', () => {
+  it('accepts a plausible run', () => {
+    expect(checkRun(RUN)).toBeNull();
+  });
+
+  it('checks the name', () => {
+    expect(checkRun({ ...RUN, name: '  ' })).toBe('name must be 1-24 characters');
+    expect(checkRun({ ...RUN, name: 'x'.repeat(25) })).toBe('name must be 1-24 characters');
+  });
+
+  it('rejects scores no pellet count adds up to', () => {
+    expect(checkRun({ ...RUN, score: -10 })).toBe('score must be a non-negative integer');
+    expect(checkRun({ ...RUN, score: 12.5 })).toBe('score must be a non-negative integer');
+    expect(checkRun({ ...RUN, score: 1205 })).toBe('score must be a multiple of 10');
+  });
+
+  it('rejects a score above what the map allows', () => {
+    expect(checkRun({ ...RUN, score: 1_000_000 })).toMatch(/^score 1000000 is more than the map allows \(\d+\)$/);
+  });
+
+  it('allows more points the more boards the run cleared', () => {
+    const oneBoard = Number(/\((\d+)\)/.exec(checkRun({ ...RUN, score: 1_000_000 })!)![1]);
+    expect(checkRun({ ...RUN, level: 2, score: oneBoard + 10 })).toBeNull();
+  });
+
+  it('rejects durations outside what the mode allows', () => {
+    expect(checkRun({ ...RUN, durationSeconds: 0 })).toMatch(/^durationSeconds must be above 0/);
+    expect(checkRun({ ...RUN, durationSeconds: 3 * 60 * 60 })).toMatch(/^durationSeconds must be above 0 and at most 7200/);
+    expect(checkRun({ ...RUN, mode: 'time-attack', durationSeconds: 10 * 60 })).toMatch(/at most 300 for/);
+  });
+
+  it('only ranks the preset difficulties', () => {
+    expect(checkRun({ ...RUN, difficulty: 'custom' })).toBe('difficulty must be easy, normal or hard; runs with custom rules are not ranked');
+    expect(checkRun({ ...RUN, difficulty: 'toString' as RunSubmission['difficulty'] })).toMatch(/^difficulty must be/);
+  });
+
+  it('checks the mode and level against the map', () => {
+    expect(checkRun({ ...RUN, mode: 'tag' as RunSubmission['mode'] })).toMatch(/^mode must be one of/);
+    expect(checkRun({ ...RUN, mode: 'endless', level: 2 })).toMatch(/runs are played on a single level$/);
+    expect(checkRun({ ...RUN, mapId: LEVELS[LEVELS.length - 1].id, level: 2 })).toMatch(/has no level 2$/);
+    expect(checkRun({ ...RUN, mapId: 'no such map!' })).toBe('mapId is not a valid map id');
+  });
+
+  describe('on a custom map', () => {
+    const custom: RunSubmission = { ...RUN, mapId: 'corridor', grid: CORRIDOR, score: 100 };
+
+    it('needs the grid', () => {
+      expect(checkRun({ ...custom, grid: undefined })).toBe('unknown map corridor; submit its grid to verify the score');
+    });
+
+    it('scores it from the submitted grid', () => {
+      // Five pellets, a power pellet with no ghosts to eat, the bonus fruit and one pellet respawn come to well under 1000
+      expect(checkRun({ ...custom, durationSeconds: 5 })).toBeNull();
+      expect(checkRun({ ...custom, durationSeconds: 5, score: 1000 })).toMatch(/^score 1000 is more than the map allows/);
+    });
+
+    it('rejects a grid that is malformed or not a valid level', () => {
+      const malformed = 'map grid must be a non-empty array of rows of tile numbers';
+      expect(checkRun({ ...custom, grid: 'grid' as unknown as number[][] })).toBe(malformed);
+      expect(checkRun({ ...custom, grid: [[1, null]] as unknown as number[][] })).toBe(malformed);
+      expect(checkRun({ ...custom, grid: parseAscii(['#####', '#...#', '#####']) })).toBe('map grid is invalid: Missing PACMAN_START tile');
+    });
+
+    it('has only one level', () => {
+      expect(checkRun({ ...custom, level: 2 })).toBe('custom maps only have one level');
+    });
+  });
+});
+
+// A Classic run on Normal on the first built-in map, turning at random until the last life is lost
+function recordRun(seed: number): RunSubmission & { replay: Replay } {
+  const sim = new GameSimulation({ level: LEVELS[0], rules: modeRules('classic', RULE_PRESETS.normal), mode: 'classic', seed });
+  const recorder = new ReplayRecorder();
+  const inputs = new Random(seed);
+  const directions: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+  recorder.beginSegment(sim.getState(), 0);
+  while (sim.getState().status === 'PLAYING') {
+    const direction = inputs.int(20) === 0 ? inputs.pick(directions) : null;
+    sim.step({ direction });
+    recorder.record(sim.getState().tick, [direction]);
+  }
+  const replay = recorder.finish(sim.getState());
+  return { ...RUN, score: replay.finalScore, durationSeconds: replay.segments[0].ticks / TICKS_PER_SECOND, replay };
+}
+
+describe('verifyRun', () => {
+  const run = recordRun(6);
+  const segment = run.replay.segments[0];
+  const withSegment = (changes: object) => ({ ...run, replay: { ...run.replay, segments: [{ ...segment, ...changes }] } });
+
+  it('accepts a run its replay plays back to', () => {
+    expect(verifyRun(run)).toBeNull();
+    expect(verifyRun({ ...run, replay: undefined })).toBeNull();
+  });
+
+  it('runs the cheap checks first', () => {
+    expect(verifyRun({ ...run, difficulty: 'custom' })).toMatch(/^difficulty must be/);
+  });
+
+  it('rejects a score the replay does not reach', () => {
+    expect(verifyRun({ ...run, score: run.score + 10 })).toBe(`replay scores ${run.score}, not ${run.score + 10}`);
+  });
+
+  it('rejects a replay that does not match the run', () => {
+    expect(verifyRun({ ...run, durationSeconds: run.durationSeconds + 5 })).toBe('replay length does not match durationSeconds');
+    expect(verifyRun({ ...run, level: 2 })).toBe('replay covers 1 level(s) but the run claims 2');
+    expect(verifyRun({ ...run, replay: { ...run.replay, players: 'co-op' } })).toBe('two-player runs are not ranked');
+    expect(verifyRun({ ...run, replay: { ...run.replay, version: 4 } })).toBe('replay is invalid: Unsupported replay version 4; expected 6');
+  });
+
+  it('does not trust the replay beyond its seeds, inputs and starting lives', () => {
+    expect(verifyRun(withSegment({ lives: 9 }))).toBe('replay starts with 9 lives; at most 5 are allowed');
+    expect(verifyRun(withSegment({ inputs: [[1, 'SIDEWAYS']] }))).toBe('replay has a malformed input');
+    expect(verifyRun(withSegment({ inputs: [] }))).not.toBeNull();
+    expect(verifyRun(withSegment({ ticks: segment.ticks - TICKS_PER_SECOND }))).toBe('replay stops before the run is over');
+  });
+
+  it('refuses to re-simulate more than the mode allows', () => {
+    expect(verifyRun(withSegment({ ticks: 3 * 60 * 60 * TICKS_PER_SECOND }))).toBe('replay is too long');
+  });
+});
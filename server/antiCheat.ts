@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICKS_PER_SECOND, TILE_SIZE, TileType } from '../src/constants';
+import { LEVELS } from '../src/game/levelPack';
+import { FRUIT_SHARES, fruitFor } from '../src/game/fruit';
+import { LevelDefinition, findTiles, isGridShape, validateGrid } from '../src/game/levels';
+import { GAME_MODES, GameMode, GameModeId, isGameModeId, modeRules } from '../src/game/modes';
+import { Replay, ReplayFormatError, parseReplay } from '../src/game/replay';
+import { Difficulty, GameRules, RULE_PRESETS, resolveRules } from '../src/game/rules';
+import { GHOST_EAT_POINTS, GameSimulation, MAX_STARTING_LIVES, PELLET_POINTS, POWER_PELLET_POINTS } from '../src/game/simulation';
+import { Direction } from '../src/game/types';
+
+export interface RunSubmission {
+  name: string;
+  score: number;
+  level: number;
+  durationSeconds: number;
+  mapId: string;
+  mode: GameModeId;
+  difficulty: Difficulty; // Only the presets are ranked; runs with custom rules are rejected
+  grid?: number[][]; // Only needed for custom maps the server does not know
+  replay?: Replay; // When present the score is re-simulated and the run stored as verified
+}
+
+// Longest run each mode is ranked for. A replay is re-simulated tick by tick, so this also bounds the work
+// one submission can cost the server
+const MAX_RUN_SECONDS: Record<GameModeId, number> = {
+  classic: 2 * 60 * 60,
+  endless: 60 * 60,
+  'time-attack': 5 * 60, // Two minutes of play, plus the READY and death pauses the clock waits through
+  survival: 60 * 60,
+};
+const TICKS_PER_TILE = TILE_SIZE / 2; // Pac-Man's pace: no pellet can be eaten sooner than this after the last
+
+// Most points one board can give in a run of this length: every pellet, every power pellet
+// with a full ghost combo, every bonus fruit, a fresh board after each pellet respawn (or each clear, in modes that
+// refill an empty board) and the mode's points for staying alive
+function boardMaxScore(level: LevelDefinition, levelNumber: number, durationSeconds: number, base: GameRules, mode: GameMode): number {
+  const rules = resolveRules(base, level.rules);
+  const pellets = findTiles(level.grid, TileType.PELLET).length;
+  const powerPellets = findTiles(level.grid, TileType.POWER_PELLET).length;
+  const ghosts = findTiles(level.grid, TileType.GHOST_START).length;
+  const combo = GHOST_EAT_POINTS.slice(0, ghosts).reduce((sum, points) => sum + points, 0);
+
+  const fruit = rules.fruitSeconds === null ? 0 : FRUIT_SHARES.length * fruitFor(levelNumber).points;
+  const perBoard = pellets * PELLET_POINTS + powerPellets * (POWER_PELLET_POINTS + combo) + fruit;
+  let refills = rules.pelletRespawnSeconds === null ? 0 : Math.floor(durationSeconds / rules.pelletRespawnSeconds);
+  if (!mode.levelSequence) refills += Math.floor(durationSeconds * TICKS_PER_SECOND / (TICKS_PER_TILE * (pellets + powerPellets)));
+  return perBoard * (1 + refills) + Math.floor(durationSeconds) * mode.survivalPointsPerSecond;
+}
+
+const DIRECTIONS = new Set<Direction>(['UP', 'DOWN', 'LEFT', 'RIGHT']);
+
+// Re-simulate the replay on the server's copy of each board. Nothing but the seeds, inputs and
+// starting lives is trusted: score and lives are chained from the previous board, grids come from `boards`
+// and rules from the claimed mode and difficulty.
+function verifyReplay(run: RunSubmission, boards: LevelDefinition[], firstLevelNumber: number, rules: GameRules): string | null {
+  let replay: Replay;
+  try {
+    replay = parseReplay(run.replay!);
+  } catch (e) {
+    return e instanceof ReplayFormatError ? `replay is invalid: ${e.message}` : 'replay is invalid';
+  }
+  if (replay.players !== 'solo') return 'two-player runs are not ranked';
+  if (replay.segments.length !== boards.length) return `replay covers ${replay.segments.length} level(s) but the run claims ${boards.length}`;
+
+  const totalTicks = replay.segments.reduce((sum, segment) => sum + segment.ticks, 0);
+  if (totalTicks > MAX_RUN_SECONDS[run.mode] * TICKS_PER_SECOND) return 'replay is too long';
+  if (Math.abs(totalTicks / TICKS_PER_SECOND - run.durationSeconds) > 1) return 'replay length does not match durationSeconds';
+
+  let score = 0;
+  let lives = replay.segments[0].lives;
+  if (lives < 1 || lives > MAX_STARTING_LIVES) return `replay starts with ${lives} lives; at most ${MAX_STARTING_LIVES} are allowed`;
+
+  for (let i = 0; i < boards.length; i++) {
+    const segment = replay.segments[i];
+    const inputs = new Map<number, Direction>();
+    for (const input of segment.inputs) {
+      if (!Array.isArray(input) || input.length !== 2 || !Number.isInteger(input[0]) || !DIRECTIONS.has(input[1])) return 'replay has a malformed input';
+      inputs.set(input[0], input[1]);
+    }
+
+    const sim = new GameSimulation({ level: boards[i], levelNumber: firstLevelNumber + i, startScore: score, lives, rules, mode: run.mode, seed: segment.seed });
+    while (sim.getState().status === 'PLAYING' && sim.getState().tick < segment.ticks) {
+      sim.step({ direction: inputs.get(sim.getState().tick + 1) ?? null });
+    }
+
+    const state = sim.getState();
+    const last = i === boards.length - 1;
+    if (state.tick !== segment.ticks) return `replay of level ${i + 1} ended after ${state.tick} ticks, not ${segment.ticks}`;
+    if (!last && state.status !== 'WON') return `replay does not clear level ${i + 1}`;
+    if (last && state.status === 'PLAYING') return 'replay stops before the run is over';
+    score = state.score;
+    lives = state.lives;
+  }
+
+  if (score !== run.score) return `replay scores ${score}, not ${run.score}`;
+  return null;
+}
+
+interface RunBoards {
+  boards: LevelDefinition[];
+  firstLevelNumber: number;
+  rules: GameRules;
+}
+
+// The checks that need no simulation: a reason to reject the run, or the boards and rules it was played with
+function inspectRun(run: RunSubmission): string | RunBoards {
+  if (typeof run.name !== 'string' || run.name.trim().length === 0 || run.name.length > 24) {
+    return 'name must be 1-24 characters';
+  }
+  if (!Number.isInteger(run.score) || run.score < 0) return 'score must be a non-negative integer';
+  if (run.score % PELLET_POINTS !== 0) return `score must be a multiple of ${PELLET_POINTS}`;
+  if (!Number.isInteger(run.level) || run.level < 1) return 'level must be a positive integer';
+  if (!isGameModeId(run.mode)) return `mode must be one of ${Object.keys(GAME_MODES).join(', ')}`;
+  const mode = GAME_MODES[run.mode];
+  if (typeof run.durationSeconds !== 'number' || !(run.durationSeconds > 0) || run.durationSeconds > MAX_RUN_SECONDS[run.mode]) {
+    return `durationSeconds must be above 0 and at most ${MAX_RUN_SECONDS[run.mode]} for ${mode.label} runs`;
+  }
+  if (typeof run.mapId !== 'string' || !/^[\w-]{1,48}$/.test(run.mapId)) return 'mapId is not a valid map id';
+  if (!Object.hasOwn(RULE_PRESETS, run.difficulty)) return 'difficulty must be easy, normal or hard; runs with custom rules are not ranked';
+  const rules = modeRules(run.mode, RULE_PRESETS[run.difficulty as keyof typeof RULE_PRESETS]);
+  if (!mode.levelSequence && run.level !== 1) return `${mode.label} runs are played on a single level`;
+
+  // Built-in maps are a sequence: a run starting on one can carry on through the ones after it
+  let boards: LevelDefinition[];
+  let firstLevelNumber = 1;
+  const start = LEVELS.findIndex(l => l.id === run.mapId);
+  if (start >= 0) {
+    boards = LEVELS.slice(start, start + run.level);
+    if (boards.length < run.level) return `map ${run.mapId} has no level ${run.level}`;
+    firstLevelNumber = start + 1;
+  } else {
+    if (!run.grid) return `unknown map ${run.mapId}; submit its grid to verify the score`;
+    if (!isGridShape(run.grid)) return 'map grid must be a non-empty array of rows of tile numbers';
+    const problems = validateGrid(run.grid);
+    if (problems.length > 0) return `map grid is invalid: ${problems[0]}`;
+    if (run.level !== 1) return 'custom maps only have one level';
+    boards = [{ id: run.mapId, name: run.mapId, grid: run.grid }];
+  }
+
+  const maxScore = boards.reduce((sum, board, i) => sum + boardMaxScore(board, firstLevelNumber + i, run.durationSeconds, rules, mode), 0);
+  if (run.score > maxScore) return `score ${run.score} is more than the map allows (${maxScore})`;
+
+  return { boards, firstLevelNumber, rules };
+}
+
+// Returns a reason to reject the run, or null if it looks plausible. Cheap enough for the request handler;
+// a replay sent with the run still has to pass verifyRun
+export function checkRun(run: RunSubmission): string | null {
+  const inspected = inspectRun(run);
+  return typeof inspected === 'string' ? inspected : null;
+}
+
+// checkRun, then a full re-simulation of the replay if there is one. This can take seconds, so the server
+// runs it off the main thread (see replayVerifier.ts)
+export function verifyRun(run: RunSubmission): string | null {
+  const inspected = inspectRun(run);
+  if (typeof inspected === 'string') return inspected;
+  if (run.replay === undefined) return null;
+  return verifyReplay(run, inspected.boards, inspected.firstLevelNumber, inspected.rules);
+}
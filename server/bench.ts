@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Plays a bot through a number of episodes and reports how it did:
+//   npm run bench -- --bot avoider --episodes 20
+//   npm run bench -- --bot greedy --level 2 --difficulty hard --seed 7
+// Each episode is one board of Classic with a seed counting up from --seed, so runs are repeatable.
+
+import { TICKS_PER_SECOND } from '../src/constants';
+import { EpisodeResult, GameEnvironment, runEpisode } from '../src/game/agent';
+import { BOTS } from '../src/game/bots';
+import { LEVELS } from '../src/game/levelPack';
+import { modeRules } from '../src/game/modes';
+import { RULE_PRESETS } from '../src/game/rules';
+
+const MAX_MINUTES = 10; // Per episode, in game time; a bot stuck circling an empty corner ends there
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const botName = option('bot') ?? 'avoider';
+const episodes = Number(option('episodes') ?? 10);
+const firstSeed = Number(option('seed') ?? 1);
+const levelNumber = Number(option('level') ?? 1);
+const difficulty = option('difficulty') ?? 'normal';
+
+if (!Object.hasOwn(BOTS, botName)) fail(`--bot must be one of ${Object.keys(BOTS).join(', ')}`);
+if (!Number.isInteger(episodes) || episodes < 1) fail('--episodes must be a positive whole number');
+if (!Number.isInteger(firstSeed)) fail('--seed must be a whole number');
+if (!LEVELS[levelNumber - 1]) fail(`--level must be between 1 and ${LEVELS.length}`);
+if (!Object.hasOwn(RULE_PRESETS, difficulty)) fail(`--difficulty must be one of ${Object.keys(RULE_PRESETS).join(', ')}`);
+
+const agent = BOTS[botName]();
+const env = new GameEnvironment({
+  level: LEVELS[levelNumber - 1],
+  levelNumber,
+  rules: modeRules('classic', RULE_PRESETS[difficulty as keyof typeof RULE_PRESETS]),
+  mode: 'classic',
+  maxTicks: MAX_MINUTES * 60 * TICKS_PER_SECOND,
+});
+
+const seconds = (ticks: number) => ticks / TICKS_PER_SECOND;
+const results: EpisodeResult[] = [];
+for (let i = 0; i < episodes; i++) {
+  const result = runEpisode(env, agent, firstSeed + i);
+  results.push(result);
+  const outcome = result.truncated ? 'timed out' : result.status === 'WON' ? 'won' : 'lost';
+  console.log(`Seed ${result.seed}: ${outcome}, score ${result.score}, ${seconds(result.ticks).toFixed(1)}s`);
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const wins = results.filter(result => result.status === 'WON').length;
+console.log('');
+console.log(`${agent.name} on ${LEVELS[levelNumber - 1].name} (${difficulty}), ${episodes} episode(s)`);
+console.log(`Win rate:      ${((wins / episodes) * 100).toFixed(1)}% (${wins}/${episodes})`);
+console.log(`Average score: ${average(results.map(result => result.score)).toFixed(0)}`);
+console.log(`Average time:  ${average(results.map(result => seconds(result.ticks))).toFixed(1)}s`);
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export interface RunRecord {
+  id: number;
+  name: string;
+  score: number;
+  level: number;
+  durationSeconds: number;
+  mapId: string;
+  mode: string;
+  difficulty: string;
+  verified: number;
+  createdAt: string;
+}
+
+export function openDatabase(file: string): Database.Database {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      score INTEGER NOT NULL,
+      level INTEGER NOT NULL,
+      duration_seconds REAL NOT NULL,
+      map_id TEXT NOT NULL,
+      mode TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS runs_leaderboard ON runs (map_id, mode, score DESC);
+  `);
+
+  // Databases created before replays were stored lack these columns
+  const columns = (db.prepare('PRAGMA table_info(runs)').all() as { name: string }[]).map(c => c.name);
+  if (!columns.includes('verified')) db.exec('ALTER TABLE runs ADD COLUMN verified INTEGER NOT NULL DEFAULT 0');
+  if (!columns.includes('replay')) db.exec('ALTER TABLE runs ADD COLUMN replay TEXT');
+  // Runs from before difficulty presets were all played on what is now Normal
+  if (!columns.includes('difficulty')) db.exec("ALTER TABLE runs ADD COLUMN difficulty TEXT NOT NULL DEFAULT 'normal'");
+  db.exec('CREATE INDEX IF NOT EXISTS runs_leaderboard_difficulty ON runs (map_id, mode, difficulty, score DESC)');
+  return db;
+}
+
+const COLUMNS = `
+  id, name, score, level,
+  duration_seconds AS durationSeconds,
+  map_id AS mapId,
+  mode,
+  difficulty,
+  verified,
+  created_at AS createdAt
+`;
+
+export class RunStore {
+  private readonly db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  insert(run: Omit<RunRecord, 'id' | 'createdAt'> & { replay: string | null }): RunRecord {
+    const result = this.db.prepare(`
+      INSERT INTO runs (name, score, level, duration_seconds, map_id, mode, difficulty, verified, replay)
+      VALUES (@name, @score, @level, @durationSeconds, @mapId, @mode, @difficulty, @verified, @replay)
+    `).run(run);
+    return this.db.prepare(`SELECT ${COLUMNS} FROM runs WHERE id = ?`).get(result.lastInsertRowid) as RunRecord;
+  }
+
+  // 1-based position the score would take on its leaderboard
+  rank(mapId: string, mode: string, difficulty: string, score: number): number {
+    const row = this.db.prepare(
+      'SELECT COUNT(*) AS better FROM runs WHERE map_id = ? AND mode = ? AND difficulty = ? AND score > ?',
+    ).get(mapId, mode, difficulty, score) as { better: number };
+    return row.better + 1;
+  }
+
+  leaderboard(mapId: string, mode: string, difficulty: string, limit: number): RunRecord[] {
+    return this.db.prepare(`
+      SELECT ${COLUMNS} FROM runs
+      WHERE map_id = ? AND mode = ? AND difficulty = ?
+      ORDER BY score DESC, duration_seconds ASC, id ASC
+      LIMIT ?
+    `).all(mapId, mode, difficulty, limit) as RunRecord[];
+  }
+
+  // Stored replay JSON of a run, or null if it was submitted without one
+  replay(id: number): string | null {
+    const row = this.db.prepare('SELECT replay FROM runs WHERE id = ?').get(id) as { replay: string | null } | undefined;
+    return row?.replay ?? null;
+  }
+
+  history(name: string | null, limit: number): RunRecord[] {
+    if (name) {
+      return this.db.prepare(`SELECT ${COLUMNS} FROM runs WHERE name = ? ORDER BY id DESC LIMIT ?`).all(name, limit) as RunRecord[];
+    }
+    return this.db.prepare(`SELECT ${COLUMNS} FROM runs ORDER BY id DESC LIMIT ?`).all(limit) as RunRecord[];
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { TICKS_PER_SECOND } from '../src/constants';
+import { LEVELS } from '../src/game/levelPack';
+import { modeRules } from '../src/game/modes';
+import {
+  NET_PATH,
+  NET_PROTOCOL_VERSION,
+  ROOM_SIZE,
+  RoomMode,
+  RoomResult,
+  SNAPSHOT_EVERY_TICKS,
+  ServerMessage,
+  parseClientMessage,
+  snapshotBoard,
+} from '../src/game/netProtocol';
+import { RULE_PRESETS } from '../src/game/rules';
+import { GameSimulation } from '../src/game/simulation';
+import { Direction } from '../src/game/types';
+
+const TICK_MS = 1000 / TICKS_PER_SECOND;
+const MAX_CATCH_UP_TICKS = 15; // After a stall the rooms skip ahead rather than fast-forward
+const MAX_NAME_LENGTH = 20;
+const ROOM_CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O, which read like 1 and 0
+const MAX_MESSAGE_BYTES = 4096; // Client messages are a join or a single input; anything bigger closes the socket
+
+interface Seat {
+  socket: WebSocket;
+  name: string;
+  direction: Direction; // Latest input, applied on the next tick
+  ack: number; // Sequence number of the latest input applied
+}
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+// One match: waits for its players, then runs the authoritative simulation and reports every few ticks
+class Room {
+  readonly code: string;
+  readonly mode: RoomMode;
+  readonly seats: Seat[] = [];
+  private sims: GameSimulation[] = []; // One board per player in a race, a single shared board otherwise
+  private ended: boolean = false;
+
+  constructor(code: string, mode: RoomMode) {
+    this.code = code;
+    this.mode = mode;
+  }
+
+  get level() {
+    return LEVELS[0];
+  }
+
+  get started(): boolean {
+    return this.sims.length > 0;
+  }
+
+  get full(): boolean {
+    return this.seats.length >= ROOM_SIZE;
+  }
+
+  join(socket: WebSocket, name: string): number {
+    const player = this.seats.length;
+    this.seats.push({ socket, name: name.trim().slice(0, MAX_NAME_LENGTH) || `Player ${player + 1}`, direction: null, ack: 0 });
+    send(socket, { type: 'joined', room: this.code, mode: this.mode, player, level: this.level });
+    this.broadcast({ type: 'lobby', players: this.seats.map(seat => seat.name) });
+    if (this.full) this.start();
+    return player;
+  }
+
+  leave(socket: WebSocket) {
+    const player = this.seats.findIndex(seat => seat.socket === socket);
+    if (player === -1) return;
+
+    // Walking out of a match forfeits it
+    if (this.started && !this.ended) {
+      this.end({ winner: this.seats.length > 1 ? 1 - player : null, scores: this.scores(), reason: 'left' });
+    }
+    this.seats.splice(player, 1);
+    if (this.started) return;
+    // Whoever is left moves up a seat
+    this.seats.forEach((seat, i) => send(seat.socket, { type: 'joined', room: this.code, mode: this.mode, player: i, level: this.level }));
+    this.broadcast({ type: 'lobby', players: this.seats.map(seat => seat.name) });
+  }
+
+  input(socket: WebSocket, seq: number, direction: NonNullable<Direction>) {
+    const seat = this.seats.find(s => s.socket === socket);
+    if (!seat || seq <= seat.ack) return;
+    seat.direction = direction;
+    seat.ack = seq;
+  }
+
+  // Returns false once the match is over
+  tick(): boolean {
+    if (!this.started) return true;
+    if (this.ended) return false;
+
+    if (this.mode === 'race') {
+      this.sims.forEach((sim, player) => sim.step({ direction: this.seats[player].direction }));
+    } else {
+      this.sims[0].step({ directions: this.seats.map(seat => seat.direction) });
+    }
+    this.seats.forEach(seat => {
+      seat.direction = null;
+    });
+
+    const tick = this.sims[0].getState().tick;
+    const result = this.result();
+    if (result || tick % SNAPSHOT_EVERY_TICKS === 0) {
+      this.broadcast({
+        type: 'snapshot',
+        tick,
+        boards: this.sims.map(sim => snapshotBoard(sim.getState())),
+        acks: this.seats.map(seat => seat.ack),
+      });
+    }
+    if (result) this.end(result);
+    return !this.ended;
+  }
+
+  private start() {
+    const seed = Date.now() >>> 0;
+    const rules = modeRules('classic', RULE_PRESETS.normal);
+    // Racers get identical boards with the same seed, so neither draws luckier ghosts
+    const boards = this.mode === 'race' ? this.seats.length : 1;
+    this.sims = Array.from({ length: boards }, () => new GameSimulation({
+      level: this.level,
+      rules,
+      mode: 'classic',
+      players: this.mode === 'shared' ? 'co-op' : 'solo',
+      seed,
+    }));
+    this.broadcast({ type: 'start', seed });
+  }
+
+  private scores(): number[] {
+    if (this.mode === 'race') return this.sims.map(sim => sim.getState().score);
+    return [...(this.sims[0]?.getState().playerScores ?? [])];
+  }
+
+  private result(): RoomResult | null {
+    const statuses = this.sims.map(sim => sim.getState().status);
+    const scores = this.scores();
+
+    if (this.mode === 'shared') {
+      if (statuses[0] === 'PLAYING') return null;
+      const winner = scores[0] === scores[1] ? null : scores[0] > scores[1] ? 0 : 1;
+      return { winner, scores, reason: 'finished' };
+    }
+
+    // Race: clearing your board first wins; losing your last life hands the win to the other player
+    const cleared = statuses.indexOf('WON');
+    if (cleared !== -1) return { winner: statuses.lastIndexOf('WON') === cleared ? cleared : null, scores, reason: 'cleared' };
+    const caught = statuses.indexOf('LOST');
+    if (caught !== -1) return { winner: statuses.lastIndexOf('LOST') === caught ? 1 - caught : null, scores, reason: 'caught' };
+    return null;
+  }
+
+  private end(result: RoomResult) {
+    this.ended = true;
+    this.broadcast({ type: 'end', result });
+  }
+
+  private broadcast(message: ServerMessage) {
+    this.seats.forEach(seat => send(seat.socket, message));
+  }
+}
+
+// Rooms of two, played over a WebSocket at NET_PATH on the score server's HTTP server
+export class GameServer {
+  private readonly wss: WebSocketServer;
+  private readonly rooms = new Map<string, Room>();
+  private readonly roomOf = new Map<WebSocket, Room>();
+  private timer: NodeJS.Timeout;
+  private lastTime: number = performance.now();
+  private accumulator: number = 0;
+
+  constructor(server: Server) {
+    this.wss = new WebSocketServer({ server, path: NET_PATH, maxPayload: MAX_MESSAGE_BYTES });
+    this.wss.on('connection', socket => this.handleConnection(socket));
+    // Without a listener an 'error' event is thrown, and would take the score API down with the rooms
+    this.wss.on('error', error => console.error('Online play server error:', error.message));
+    this.timer = setInterval(() => this.update(), TICK_MS / 2);
+  }
+
+  close() {
+    clearInterval(this.timer);
+    this.wss.close();
+  }
+
+  private handleConnection(socket: WebSocket) {
+    socket.on('message', data => this.handleMessage(socket, data.toString()));
+    socket.on('close', () => this.leave(socket));
+    // A malformed or oversized frame; ws closes the socket after reporting it
+    socket.on('error', () => this.leave(socket));
+  }
+
+  private handleMessage(socket: WebSocket, text: string) {
+    const message = parseClientMessage(text);
+    if (!message) {
+      send(socket, { type: 'error', message: 'Malformed message' });
+      return;
+    }
+
+    if (message.type === 'input') {
+      this.roomOf.get(socket)?.input(socket, message.seq, message.direction);
+      return;
+    }
+    if (message.type === 'leave') {
+      this.leave(socket);
+      return;
+    }
+
+    if (message.version !== NET_PROTOCOL_VERSION) {
+      send(socket, { type: 'error', message: `Protocol version ${message.version} is not supported; this server speaks ${NET_PROTOCOL_VERSION}` });
+      return;
+    }
+    if (this.roomOf.has(socket)) {
+      send(socket, { type: 'error', message: 'Already in a room' });
+      return;
+    }
+
+    let room: Room | undefined;
+    if (message.type === 'create') {
+      room = new Room(this.newRoomCode(), message.mode);
+      this.rooms.set(room.code, room);
+    } else {
+      room = this.rooms.get(message.room.trim().toUpperCase());
+      if (!room || room.started || room.full) {
+        send(socket, { type: 'error', message: room ? 'That room has already started' : `No room ${message.room}` });
+        return;
+      }
+    }
+    this.roomOf.set(socket, room);
+    room.join(socket, message.name);
+  }
+
+  private leave(socket: WebSocket) {
+    const room = this.roomOf.get(socket);
+    if (!room) return;
+    this.roomOf.delete(socket);
+    room.leave(socket);
+    if (room.seats.length === 0) this.rooms.delete(room.code);
+  }
+
+  // Fixed timestep, like the client's game loop
+  private update() {
+    const now = performance.now();
+    this.accumulator = Math.min(this.accumulator + now - this.lastTime, MAX_CATCH_UP_TICKS * TICK_MS);
+    this.lastTime = now;
+
+    while (this.accumulator >= TICK_MS) {
+      this.accumulator -= TICK_MS;
+      for (const room of this.rooms.values()) {
+        if (room.tick()) continue;
+        // Finished: let everyone go, their clients keep showing the result
+        room.seats.forEach(seat => this.roomOf.delete(seat.socket));
+        this.rooms.delete(room.code);
+      }
+    }
+  }
+
+  private newRoomCode(): string {
+    let code: string;
+    do {
+      code = Array.from({ length: 4 }, () => ROOM_CODE_LETTERS[Math.floor(Math.random() * ROOM_CODE_LETTERS.length)]).join('');
+    } while (this.rooms.has(code));
+    return code;
+  }
+}
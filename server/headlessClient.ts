@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Scripted player for trying online play without a second browser tab:
+//   npm run client -- --create race
+//   npm run client -- --join ABCD --name Bot
+// It wanders the maze, turning at random junctions, and exits once the match is over.
+
+import { WebSocket } from 'ws';
+import { NET_PATH, NET_PROTOCOL_VERSION, ROOM_MODES, RoomMode, ServerMessage, restorePacman } from '../src/game/netProtocol';
+import { Direction } from '../src/game/types';
+
+const DIRECTIONS: NonNullable<Direction>[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+const OPPOSITE: Record<NonNullable<Direction>, Direction> = { UP: 'DOWN', DOWN: 'UP', LEFT: 'RIGHT', RIGHT: 'LEFT' };
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const url = option('url') ?? `ws://localhost:${process.env.PORT ?? 3001}${NET_PATH}`;
+const name = option('name') ?? 'Bot';
+const join = option('join');
+const create = (option('create') ?? 'race') as RoomMode;
+if (!join && !ROOM_MODES.includes(create)) {
+  console.error(`--create must be one of ${ROOM_MODES.join(', ')}`);
+  process.exit(1);
+}
+
+const socket = new WebSocket(url);
+let player = 0;
+let mode: RoomMode = create;
+let seq = 0;
+let lastTurnTick = -1;
+
+socket.on('open', () => {
+  socket.send(JSON.stringify(join
+    ? { type: 'join', version: NET_PROTOCOL_VERSION, name, room: join }
+    : { type: 'create', version: NET_PROTOCOL_VERSION, name, mode: create }));
+});
+
+socket.on('message', data => {
+  const message = JSON.parse(data.toString()) as ServerMessage;
+  switch (message.type) {
+    case 'joined':
+      player = message.player;
+      mode = message.mode;
+      console.log(`In room ${message.room} (${message.mode}) as player ${player + 1}`);
+      break;
+    case 'lobby':
+      console.log(`Players: ${message.players.join(', ')}`);
+      break;
+    case 'start':
+      console.log(`Started with seed ${message.seed}`);
+      break;
+    case 'snapshot': {
+      // Race boards are one per player; the shared board has a Pac-Man per player
+      const board = message.boards[mode === 'race' ? player : 0];
+      const me = board.pacmen[mode === 'race' ? 0 : player];
+      if (message.tick % 600 === 0) console.log(`Tick ${message.tick}: score ${board.score}, lives ${board.lives}`);
+      if (!me || message.tick - lastTurnTick < 10) break;
+
+      const pacman = restorePacman(me);
+      const open = DIRECTIONS.filter(dir => dir !== (pacman.direction && OPPOSITE[pacman.direction]) && pacman.canMove(dir, board.map));
+      const choices = open.length > 0 ? open : DIRECTIONS.filter(dir => pacman.canMove(dir, board.map));
+      if (choices.length === 0) break;
+      // Keep going straight most of the time, like a player would
+      if (pacman.direction && choices.includes(pacman.direction) && Math.random() < 0.7) break;
+      const direction = choices[Math.floor(Math.random() * choices.length)];
+      socket.send(JSON.stringify({ type: 'input', seq: ++seq, direction }));
+      lastTurnTick = message.tick;
+      break;
+    }
+    case 'end': {
+      const { winner, scores, reason } = message.result;
+      const outcome = winner === null ? 'a draw' : winner === player ? 'a win' : 'a loss';
+      console.log(`Match over (${reason}): ${outcome}, scores ${scores.join(' / ')}`);
+      socket.close();
+      break;
+    }
+    case 'error':
+      console.error(`Server: ${message.message}`);
+      break;
+  }
+});
+
+socket.on('close', () => process.exit(0));
+socket.on('error', err => {
+  console.error(`Could not reach ${url}: ${err.message}`);
+  process.exit(1);
+});
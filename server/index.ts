@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'dotenv/config';
+import express from 'express';
+import { NET_PATH } from '../src/game/netProtocol';
+import { RunStore, openDatabase } from './db';
+import { GameServer } from './gameServer';
+import { ReplayVerifier } from './replayVerifier';
+import { createRouter } from './routes';
+
+const PORT = Number(process.env.PORT ?? 3001);
+const DATABASE_PATH = process.env.DATABASE_PATH ?? 'data/scores.db';
+
+const app = express();
+app.use(express.json({ limit: '2mb' }));
+app.use('/api', createRouter(new RunStore(openDatabase(DATABASE_PATH)), new ReplayVerifier()));
+
+const server = app.listen(PORT, () => {
+  console.log(`Score server listening on http://localhost:${PORT}`);
+  console.log(`Online play on ws://localhost:${PORT}${NET_PATH}`);
+});
+new GameServer(server);
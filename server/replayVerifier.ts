@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Worker } from 'worker_threads';
+import { RunSubmission } from './antiCheat';
+
+const MAX_QUEUED = 32; // Submissions waiting beyond this are turned away until the queue drains
+
+// The server runs under tsx, whose TypeScript loader worker threads don't inherit: register it, then load the worker
+const WORKER_BOOTSTRAP = `
+  import(${JSON.stringify(import.meta.resolve('tsx/esm/api'))})
+    .then(({ register }) => { register(); return import(${JSON.stringify(new URL('./replayWorker.ts', import.meta.url).href)}); });
+`;
+
+export class VerifierBusyError extends Error {
+  constructor() {
+    super('Too many runs are waiting to be verified; try again shortly');
+    this.name = 'VerifierBusyError';
+  }
+}
+
+interface Job {
+  id: number;
+  run: RunSubmission;
+  resolve: (problem: string | null) => void;
+  reject: (error: Error) => void;
+}
+
+// Re-simulating a replay can take seconds, which would stall every online room sharing the event loop.
+// Runs are queued and verified one after another on a worker thread, started on first use
+export class ReplayVerifier {
+  private worker: Worker | null = null;
+  private queue: Job[] = [];
+  private current: Job | null = null;
+  private nextId = 1;
+
+  // Resolves with a reason to reject the run, or null if its replay checks out
+  verify(run: RunSubmission): Promise<string | null> {
+    if (this.queue.length >= MAX_QUEUED) return Promise.reject(new VerifierBusyError());
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, run, resolve, reject });
+      this.next();
+    });
+  }
+
+  close() {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private next() {
+    if (this.current || this.queue.length === 0) return;
+    this.current = this.queue.shift()!;
+    this.start().postMessage({ id: this.current.id, run: this.current.run });
+  }
+
+  private start(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(WORKER_BOOTSTRAP, { eval: true });
+    worker.on('message', ({ id, problem }: { id: number; problem: string | null }) => {
+      if (this.current?.id !== id) return;
+      this.current.resolve(problem);
+      this.current = null;
+      this.next();
+    });
+    // A crashed worker fails the run it was on; the next run starts a fresh one
+    const fail = (error: Error) => {
+      if (this.worker !== worker) return;
+      this.worker = null;
+      this.current?.reject(error);
+      this.current = null;
+      this.next();
+    };
+    worker.on('error', fail);
+    worker.on('exit', code => fail(new Error(`Replay worker exited with code ${code}`)));
+    worker.unref();
+    this.worker = worker;
+    return worker;
+  }
+}
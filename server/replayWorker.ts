@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { parentPort } from 'worker_threads';
+import { RunSubmission, verifyRun } from './antiCheat';
+
+// Runs verifyRun for ReplayVerifier, one job at a time, away from the thread serving requests and online rooms
+parentPort?.on('message', ({ id, run }: { id: number; run: RunSubmission }) => {
+  let problem: string | null;
+  try {
+    problem = verifyRun(run);
+  } catch (e) {
+    problem = `replay could not be verified: ${(e as Error).message}`;
+  }
+  parentPort?.postMessage({ id, problem });
+});
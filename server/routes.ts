@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express from 'express';
+import { serializeReplay } from '../src/game/replay';
+import { RunSubmission, checkRun } from './antiCheat';
+import { RunStore } from './db';
+import { ReplayVerifier, VerifierBusyError } from './replayVerifier';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+function parseLimit(value: unknown): number {
+  const limit = Number(value ?? DEFAULT_LIMIT);
+  if (!Number.isFinite(limit)) return DEFAULT_LIMIT;
+  return Math.max(1, Math.min(MAX_LIMIT, Math.floor(limit)));
+}
+
+export function createRouter(store: RunStore, verifier: ReplayVerifier): express.Router {
+  const router = express.Router();
+
+  // Submit a finished run
+  router.post('/runs', async (req, res) => {
+    const run = req.body as RunSubmission;
+    let problem = checkRun(run);
+    if (!problem && run.replay !== undefined) {
+      try {
+        problem = await verifier.verify(run);
+      } catch (e) {
+        res.status(e instanceof VerifierBusyError ? 503 : 500).json({ error: (e as Error).message });
+        return;
+      }
+    }
+    if (problem) {
+      res.status(400).json({ error: problem });
+      return;
+    }
+
+    const record = store.insert({
+      name: run.name.trim(),
+      score: run.score,
+      level: run.level,
+      durationSeconds: run.durationSeconds,
+      mapId: run.mapId,
+      mode: run.mode,
+      difficulty: run.difficulty,
+      verified: run.replay ? 1 : 0,
+      replay: run.replay ? serializeReplay(run.replay) : null,
+    });
+    res.status(201).json({ run: record, rank: store.rank(record.mapId, record.mode, record.difficulty, record.score) });
+  });
+
+  // Recent runs, optionally for one player
+  router.get('/runs', (req, res) => {
+    const name = typeof req.query.name === 'string' ? req.query.name : null;
+    res.json({ runs: store.history(name, parseLimit(req.query.limit)) });
+  });
+
+  // Replay of a stored run, in the same format as a replay file export
+  router.get('/runs/:id/replay', (req, res) => {
+    const replay = store.replay(Number(req.params.id));
+    if (!replay) {
+      res.status(404).json({ error: 'No replay stored for this run' });
+      return;
+    }
+    res.type('application/json').send(replay);
+  });
+
+  // Top-N for a map, game mode and difficulty
+  router.get('/leaderboard', (req, res) => {
+    const { mapId, mode, difficulty } = req.query;
+    if (typeof mapId !== 'string' || typeof mode !== 'string' || typeof difficulty !== 'string') {
+      res.status(400).json({ error: 'mapId, mode and difficulty query parameters are required' });
+      return;
+    }
+    res.json({ entries: store.leaderboard(mapId, mode, difficulty, parseLimit(req.query.limit)) });
+  });
+
+  return router;
+}
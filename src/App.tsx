@@ -3,508 +3,852 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Trophy, RotateCcw, Play, Skull } from 'lucide-react';
-import { MAP, TILE_SIZE, COLORS, TileType } from './constants';
-
-type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT' | null;
-
-interface Position {
-  x: number;
-  y: number;
+import { Trophy, RotateCcw, Play, Pause, Skull, Pencil, Upload, Home, Keyboard, Gamepad2, Volume2, VolumeX, Shuffle, SlidersHorizontal, Palette, Ghost, Globe } from 'lucide-react';
+import { TILE_SIZE, TICKS_PER_SECOND } from './constants';
+import { AudioSettings, SoundEngine } from './audio';
+import { CanvasBounds, useFittedCanvas } from './canvasFit';
+import ControlsPanel from './components/ControlsPanel';
+import DebugPanel from './components/DebugPanel';
+import DPad from './components/DPad';
+import GameOver from './components/GameOver';
+import MazeEditor from './components/MazeEditor';
+import OnlinePanel from './components/OnlinePanel';
+import OverlayImage from './components/OverlayImage';
+import RandomMazePanel from './components/RandomMazePanel';
+import ReplayControls, { formatTime } from './components/ReplayControls';
+import RulesPanel from './components/RulesPanel';
+import SoundPanel from './components/SoundPanel';
+import ThemePanel from './components/ThemePanel';
+import { drawDebugOverlay } from './debugOverlay';
+import { LEVELS } from './game/levelPack';
+import { LevelDefinition } from './game/levels';
+import { RoomMode } from './game/netProtocol';
+import { GAME_MODES, GameModeId, isGameModeId, modeRules } from './game/modes';
+import { parseReplay, Replay, ReplayPlayer, ReplayRecorder, serializeReplay } from './game/replay';
+import { DEFAULT_RULES, DIFFICULTIES, Difficulty, GameRules, rulesFor, sanitizeRules } from './game/rules';
+import { GameSimulation, MAX_STARTING_LIVES, NO_POINTS, STARTING_LIVES, SimulationState, addBreakdowns } from './game/simulation';
+import { RunSnapshot, createSnapshot, parseSnapshot, restoreSimulation, serializeSnapshot } from './game/snapshot';
+import { Direction, PlayerMode, ScoreBreakdown as Breakdown } from './game/types';
+import { InputAction, InputManager, formatKey } from './input';
+import { OnlineClient } from './net';
+import { ActorPositions, captureActors, drawFrame } from './render';
+import { THEMES, Theme, ThemeManifest, parseThemeManifest } from './theme';
+
+const STARTING_LIVES_KEY = 'pacman.startingLives';
+const SHOW_DPAD_KEY = 'pacman.showDPad';
+const GAME_MODE_KEY = 'pacman.gameMode';
+const DIFFICULTY_KEY = 'pacman.difficulty';
+const CUSTOM_RULES_KEY = 'pacman.customRules';
+const THEME_KEY = 'pacman.theme';
+const THEME_PACK_KEY = 'pacman.themePack'; // Manifest of the last theme pack loaded from a file
+const PLAYERS_KEY = 'pacman.players';
+const COOP_SCORING_KEY = 'pacman.coopScoring';
+const SAVED_RUN_KEY = 'pacman.savedRun';
+const AUTOSAVE_MS = 5000;
+const TICK_MS = 1000 / TICKS_PER_SECOND;
+const MAX_FRAME_MS = 250; // A longer gap (e.g. a stalled tab) is not caught up on
+const BOARD_HEIGHT_SHARE = 0.75; // Of the window's height, at most, so the HUD stays in view
+const OPPONENT_BOARD_SHARE = 0.25; // Size of the opponent's board in a race, against one's own
+
+// A whole number of lives the server will rank; a stored or edited value outside that starts from the nearest one
+function clampStartingLives(count: number): number {
+  return Number.isFinite(count) ? Math.max(1, Math.min(MAX_STARTING_LIVES, Math.round(count))) : STARTING_LIVES;
 }
 
-class Entity {
-  x: number;
-  y: number;
-  gridX: number;
-  gridY: number;
-  direction: Direction = null;
-  nextDirection: Direction = null;
-  speed: number = 2;
-
-  constructor(gridX: number, gridY: number) {
-    this.gridX = gridX;
-    this.gridY = gridY;
-    this.x = gridX * TILE_SIZE + TILE_SIZE / 2;
-    this.y = gridY * TILE_SIZE + TILE_SIZE / 2;
-  }
-
-  canMove(dir: Direction, map: number[][]): boolean {
-    if (!dir) return false;
-    let nextGridX = this.gridX;
-    let nextGridY = this.gridY;
-
-    if (dir === 'UP') nextGridY--;
-    if (dir === 'DOWN') nextGridY++;
-    if (dir === 'LEFT') nextGridX--;
-    if (dir === 'RIGHT') nextGridX++;
-
-    if (nextGridY < 0 || nextGridY >= map.length || nextGridX < 0 || nextGridX >= map[0].length) return false;
-    return map[nextGridY][nextGridX] !== TileType.WALL;
-  }
-
-  updatePosition(map: number[][]) {
-    const centerX = this.gridX * TILE_SIZE + TILE_SIZE / 2;
-    const centerY = this.gridY * TILE_SIZE + TILE_SIZE / 2;
-
-    // Check if we are at the center of the tile (with a small epsilon for float safety)
-    const atCenter = Math.abs(this.x - centerX) < this.speed && Math.abs(this.y - centerY) < this.speed;
-
-    if (atCenter) {
-      // Snap to exact center
-      this.x = centerX;
-      this.y = centerY;
-
-      // Pacman-specific: check for pre-buffered turn
-      if (this.nextDirection && this.canMove(this.nextDirection, map)) {
-        this.direction = this.nextDirection;
-        this.nextDirection = null;
-      } else if (this.direction && !this.canMove(this.direction, map)) {
-        this.direction = null;
-      }
+const PLAYER_MODES: { id: PlayerMode; label: string }[] = [
+  { id: 'solo', label: '1P' },
+  { id: 'co-op', label: '2P Co-op' },
+  { id: 'versus', label: '2P Versus' },
+];
+
+export default function App() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [score, setScore] = useState(0);
+  const [playerScores, setPlayerScores] = useState<readonly number[]>([0]);
+  const [gameState, setGameState] = useState<'START' | 'PLAYING' | 'PAUSED' | 'LEVEL_CLEAR' | 'WON' | 'LOST' | 'REPLAY' | 'ONLINE' | 'ONLINE_OVER'>('START');
+  const [pelletsLeft, setPelletsLeft] = useState(0);
+  const [lives, setLives] = useState(0);
+  const [startingLives, setStartingLives] = useState(() => clampStartingLives(Number(localStorage.getItem(STARTING_LIVES_KEY) ?? STARTING_LIVES)));
+  const [gameMode, setGameMode] = useState<GameModeId>(() => {
+    const stored = localStorage.getItem(GAME_MODE_KEY);
+    return isGameModeId(stored) ? stored : 'classic';
+  });
+  const [players, setPlayers] = useState<PlayerMode>(() => {
+    const stored = localStorage.getItem(PLAYERS_KEY);
+    return PLAYER_MODES.some(p => p.id === stored) ? stored as PlayerMode : 'solo';
+  });
+  // Co-op only: one shared score, or each player's own shown side by side
+  const [coopScoring, setCoopScoring] = useState<'combined' | 'separate'>(() => localStorage.getItem(COOP_SCORING_KEY) === 'separate' ? 'separate' : 'combined');
+  const [playTicks, setPlayTicks] = useState(0); // Whole seconds only, for the mode clocks
+  const [ghostSpeedBoost, setGhostSpeedBoost] = useState(0);
+  const [difficulty, setDifficulty] = useState<Difficulty>(() => {
+    const stored = localStorage.getItem(DIFFICULTY_KEY);
+    return DIFFICULTIES.some(d => d.id === stored) ? stored as Difficulty : 'normal';
+  });
+  const [customRules, setCustomRules] = useState<GameRules>(() => {
+    try {
+      return sanitizeRules(JSON.parse(localStorage.getItem(CUSTOM_RULES_KEY) ?? 'null'));
+    } catch {
+      return sanitizeRules(null);
     }
+  });
+  const [levels, setLevels] = useState<LevelDefinition[]>(LEVELS);
+  const [levelIndex, setLevelIndex] = useState(0);
+  const [editing, setEditing] = useState(false);
+  const [runSeconds, setRunSeconds] = useState(0);
+  const [runBreakdown, setRunBreakdown] = useState<Breakdown>(NO_POINTS);
+  const [draftLevel, setDraftLevel] = useState<LevelDefinition>({ ...LEVELS[0], id: 'custom', name: 'Custom' });
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [replayPlaying, setReplayPlaying] = useState(true);
+  const [replayPosition, setReplayPosition] = useState(0);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [panel, setPanel] = useState<'controls' | 'sound' | 'random' | 'rules' | 'theme' | 'online' | null>(null);
+  const onlineRef = useRef<OnlineClient | null>(null);
+  const opponentCanvasRef = useRef<HTMLCanvasElement>(null);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [, setOnlineVersion] = useState(0);
+  const [opponentScore, setOpponentScore] = useState(0);
+  const online = gameState === 'ONLINE' || gameState === 'ONLINE_OVER' ? onlineRef.current : null;
+  const [themePack, setThemePack] = useState<ThemeManifest | null>(() => {
+    try {
+      const stored = localStorage.getItem(THEME_PACK_KEY);
+      return stored ? parseThemeManifest(stored) : null;
+    } catch {
+      return null;
+    }
+  });
+  const [savedRun, setSavedRun] = useState<RunSnapshot | null>(() => {
+    // A save this build can't read is dropped rather than offered
+    const stored = localStorage.getItem(SAVED_RUN_KEY);
+    if (!stored) return null;
+    try {
+      return parseSnapshot(stored);
+    } catch {
+      localStorage.removeItem(SAVED_RUN_KEY);
+      return null;
+    }
+  });
+  const [themeId, setThemeId] = useState(() => localStorage.getItem(THEME_KEY) ?? THEMES[0].id);
+  // A loaded pack with the id of a built-in theme replaces it
+  const themes = themePack ? [...THEMES.filter(t => t.id !== themePack.id), themePack] : THEMES;
+  const themeManifest = themes.find(t => t.id === themeId) ?? THEMES[0];
+  const theme = useMemo(() => new Theme(themeManifest), [themeManifest]);
+  const themeRef = useRef(theme);
+  themeRef.current = theme;
+  const [debug, setDebug] = useState(false);
+  const debugRef = useRef(debug);
+  debugRef.current = debug;
+  const [debugged, setDebugged] = useState(false); // The debug tools changed this run, so it has no faithful replay
+  const [showDPad, setShowDPad] = useState(() => {
+    const stored = localStorage.getItem(SHOW_DPAD_KEY);
+    return stored === null ? window.matchMedia('(pointer: coarse)').matches : stored === 'true';
+  });
+  const [, setInputVersion] = useState(0);
+  const inputRef = useRef<InputManager | null>(null);
+  if (!inputRef.current) inputRef.current = new InputManager();
+  const input = inputRef.current;
+  const soundRef = useRef<SoundEngine | null>(null);
+  if (!soundRef.current) soundRef.current = new SoundEngine();
+  const sound = soundRef.current;
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(sound.settings);
+  const level = levels[levelIndex];
+  const isCustomLevel = levels !== LEVELS;
+  const mode = GAME_MODES[gameState === 'REPLAY' && replay ? replay.mode : gameMode];
+  const timeLeftTicks = mode.timeLimitSeconds === null ? null : Math.max(0, mode.timeLimitSeconds * TICKS_PER_SECOND - playTicks);
+  const runPlayers = gameState === 'REPLAY' && replay ? replay.players : players;
+  const separateScores = runPlayers === 'co-op' && coopScoring === 'separate';
+  const debugPaused = debug && gameState === 'PAUSED' && !panel;
+
+  // Result screen wording for the mode that was played
+  const wonTitle = runPlayers === 'versus' ? 'Pac-Man Wins!' : timeLeftTicks === null ? 'Victory!' : "Time's Up!";
+  const wonMessage = timeLeftTicks === null
+    ? `Congratulations! You cleared all ${levels.length} levels with ${score} points!`
+    : `You scored ${score} points in ${formatTime(mode.timeLimitSeconds! * TICKS_PER_SECOND)}.`;
+  const lostMessage = {
+    classic: `The ghosts caught your last life. Final score: ${score}`,
+    endless: `The ghosts caught your last life after ${formatTime(playTicks)}. Final score: ${score}`,
+    'time-attack': `Out of lives with ${formatTime(timeLeftTicks ?? 0)} still on the clock. Final score: ${score}`,
+    survival: `You survived the Ultimate Ghost for ${formatTime(playTicks)}. Final score: ${score}`,
+  }[mode.id];
+  const lostTitle = runPlayers === 'versus' ? 'Ghosts Win!' : 'Game Over';
+  const scoreSplit = separateScores
+    ? `Player 1: ${playerScores[0] ?? 0} · Player 2: ${playerScores[1] ?? 0}${
+        playerScores[0] === playerScores[1] ? ' · A draw!' : ` · Player ${playerScores[0] > playerScores[1] ? 1 : 2} takes it!`
+      }`
+    : null;
+
+  const onlineResultMessage = {
+    cleared: 'The board was cleared.',
+    caught: 'The ghosts took a last life.',
+    finished: 'The shared board is over. The higher score wins.',
+    left: 'A player left the match.',
+  };
+
+  // What gets submitted to the leaderboard once the run is over
+  const finishedRun = {
+    score,
+    level: levelIndex + 1,
+    durationSeconds: runSeconds,
+    mapId: levels[0].id,
+    mode: gameMode,
+    difficulty,
+    grid: isCustomLevel ? levels[0].grid : undefined,
+    replay: replay ?? undefined,
+  };
+
+  useEffect(() => theme.applyToDocument(), [theme]);
 
-    if (this.direction) {
-      if (this.direction === 'UP') this.y -= this.speed;
-      if (this.direction === 'DOWN') this.y += this.speed;
-      if (this.direction === 'LEFT') this.x -= this.speed;
-      if (this.direction === 'RIGHT') this.x += this.speed;
+  const gameData = useRef<{
+    sim: GameSimulation | null;
+    levels: LevelDefinition[];
+    runTicks: number;
+    runBreakdown: Breakdown; // Points from the boards finished so far
+    difficulty: Difficulty; // The run's, for saving it
+    rules: GameRules;
+    lastSaveTime: number | null;
+    animationId: number | null;
+    recorder: ReplayRecorder;
+    player: ReplayPlayer | null;
+    replayPlaying: boolean;
+    replaySpeed: number;
+    lastFrameTime: number | null;
+    accumulator: number; // Milliseconds of real time not yet simulated
+    fps: number; // Smoothed, for the debug overlay
+    debugged: boolean;
+    previous: ActorPositions | null;
+  }>({
+    sim: null,
+    levels: LEVELS,
+    runTicks: 0,
+    runBreakdown: NO_POINTS,
+    difficulty: 'normal',
+    rules: DEFAULT_RULES,
+    lastSaveTime: null,
+    animationId: null,
+    recorder: new ReplayRecorder(),
+    player: null,
+    replayPlaying: true,
+    replaySpeed: 1,
+    lastFrameTime: null,
+    accumulator: 0,
+    fps: 0,
+    debugged: false,
+    previous: null,
+  });
 
-      // Update grid coordinates
-      this.gridX = Math.floor(this.x / TILE_SIZE);
-      this.gridY = Math.floor(this.y / TILE_SIZE);
+  const startLevel = (sequence: LevelDefinition[], index: number, startScore: number, startLives: number, startPlayerScores?: readonly number[]) => {
+    const difficultyRules = rulesFor(difficulty, customRules);
+    const rules = modeRules(gameMode, difficultyRules);
+    const sim = new GameSimulation({
+      level: sequence[index],
+      levelNumber: index + 1,
+      startScore,
+      startPlayerScores: startPlayerScores && [...startPlayerScores],
+      lives: startLives,
+      rules,
+      mode: gameMode,
+      players,
+    });
+    const state = sim.getState();
+
+    gameData.current.sim = sim;
+    gameData.current.levels = sequence;
+    gameData.current.difficulty = difficulty;
+    gameData.current.rules = difficultyRules;
+    gameData.current.lastSaveTime = null;
+    if (index === 0) {
+      gameData.current.runTicks = 0;
+      gameData.current.debugged = false;
+      setDebugged(false);
+      gameData.current.runBreakdown = NO_POINTS;
+      gameData.current.recorder = new ReplayRecorder();
+      setReplay(null);
     }
-  }
-}
+    gameData.current.recorder.beginSegment(state, startScore);
+    input.clear();
+    // Every way into a level is a click, which is what browsers require before audio may play
+    sound.unlock();
+
+    setScore(state.score);
+    setPlayerScores([...state.playerScores]);
+    setLives(state.lives);
+    setPelletsLeft(state.pelletsLeft);
+    setPlayTicks(0);
+    setGhostSpeedBoost(0);
+    setLevels(sequence);
+    setLevelIndex(index);
+    setGameState('PLAYING');
+  };
 
-class Ghost extends Entity {
-  color: string;
-  isMerging: boolean = false;
-  merged: boolean = false;
-
-  constructor(gridX: number, gridY: number, color: string) {
-    super(gridX, gridY);
-    this.color = color;
-    this.speed = 2; 
-  }
-
-  updateAI(map: number[][]) {
-    if (this.merged) return;
-
-    // Speed up and ignore walls when merging
-    const currentSpeed = this.isMerging ? 3 : 2;
-    this.speed = currentSpeed;
-
-    const targetX = 9 * TILE_SIZE + TILE_SIZE / 2;
-    const targetY = 9 * TILE_SIZE + TILE_SIZE / 2;
-
-    if (this.isMerging) {
-      // Direct movement to center (ignoring walls)
-      const angle = Math.atan2(targetY - this.y, targetX - this.x);
-      this.x += Math.cos(angle) * this.speed;
-      this.y += Math.sin(angle) * this.speed;
-
-      // Update grid coordinates
-      this.gridX = Math.floor(this.x / TILE_SIZE);
-      this.gridY = Math.floor(this.y / TILE_SIZE);
-
-      // Check if reached center
-      const distToTarget = Math.hypot(this.x - targetX, this.y - targetY);
-      if (distToTarget < 5) {
-        this.merged = true;
-        this.x = targetX;
-        this.y = targetY;
-        this.direction = null;
-      }
-      return;
+  const initGame = () => startLevel(levels, 0, 0, startingLives);
+
+  // A board still in play, or one cleared with more to come
+  const runGoingOn = (state: SimulationState) => state.status === 'PLAYING'
+    || (state.status === 'WON' && GAME_MODES[state.mode].levelSequence && state.levelNumber < gameData.current.levels.length);
+
+  // Keeps the run in localStorage, so closing the tab doesn't lose it. Only reads gameData, so it is
+  // safe to call from listeners set up once.
+  const saveRun = () => {
+    const { sim, recorder, levels: sequence, runTicks, runBreakdown } = gameData.current;
+    // A run bent by the debug tools isn't worth keeping
+    if (!sim || gameData.current.debugged || !runGoingOn(sim.getState())) return;
+    const snapshot = createSnapshot(sim, recorder, {
+      difficulty: gameData.current.difficulty,
+      rules: gameData.current.rules,
+      levels: sequence === LEVELS ? null : sequence,
+      levelIndex: sim.getState().levelNumber - 1,
+      runTicks,
+      runBreakdown,
+    });
+    try {
+      localStorage.setItem(SAVED_RUN_KEY, serializeSnapshot(snapshot));
+    } catch {
+      return; // Storage full or blocked: the run just isn't saved
     }
+    setSavedRun(snapshot);
+  };
 
-    const centerX = this.gridX * TILE_SIZE + TILE_SIZE / 2;
-    const centerY = this.gridY * TILE_SIZE + TILE_SIZE / 2;
-    const atCenter = Math.abs(this.x - centerX) < currentSpeed && Math.abs(this.y - centerY) < currentSpeed;
-
-    if (atCenter || !this.direction) {
-      this.x = centerX;
-      this.y = centerY;
-      const directions: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
-      
-      const available = directions.filter(d => {
-        const isReverse = 
-          (this.direction === 'UP' && d === 'DOWN') ||
-          (this.direction === 'DOWN' && d === 'UP') ||
-          (this.direction === 'LEFT' && d === 'RIGHT') ||
-          (this.direction === 'RIGHT' && d === 'LEFT');
-        
-        return this.canMove(d, map) && (!isReverse || directions.filter(dir => this.canMove(dir, map)).length === 1);
-      });
-
-      if (available.length > 0) {
-        if (this.direction && this.canMove(this.direction, map) && Math.random() < 0.7) {
-        } else {
-          this.direction = available[Math.floor(Math.random() * available.length)];
-        }
-      }
+  const clearSavedRun = () => {
+    localStorage.removeItem(SAVED_RUN_KEY);
+    setSavedRun(null);
+  };
+
+  // Back to where the saved run was left, paused, or on the level clear screen between boards
+  const continueRun = () => {
+    if (!savedRun) return;
+    const sim = restoreSimulation(savedRun);
+    const state = sim.getState();
+    const sequence = savedRun.levels ?? LEVELS;
+
+    Object.assign(gameData.current, {
+      sim,
+      levels: sequence,
+      runTicks: savedRun.runTicks,
+      runBreakdown: savedRun.runBreakdown,
+      difficulty: savedRun.difficulty,
+      rules: savedRun.rules,
+      recorder: new ReplayRecorder(savedRun.replay.segments),
+      lastSaveTime: null,
+      debugged: false,
+      previous: null,
+    });
+    setDebugged(false);
+    changeGameMode(savedRun.replay.mode);
+    changePlayers(savedRun.replay.players);
+    changeDifficulty(savedRun.difficulty);
+    if (savedRun.difficulty === 'custom') {
+      localStorage.setItem(CUSTOM_RULES_KEY, JSON.stringify(savedRun.rules));
+      setCustomRules(savedRun.rules);
     }
+    input.clear();
+    sound.unlock();
+
+    setReplay(null);
+    setScore(state.score);
+    setPlayerScores([...state.playerScores]);
+    setLives(state.lives);
+    setPelletsLeft(state.pelletsLeft);
+    setPlayTicks(state.playTicks - state.playTicks % TICKS_PER_SECOND);
+    setGhostSpeedBoost(state.ghostSpeedBoost);
+    setRunSeconds(savedRun.runTicks / TICKS_PER_SECOND);
+    setRunBreakdown(savedRun.runBreakdown);
+    setLevels(sequence);
+    setLevelIndex(savedRun.levelIndex);
+    setGameState(state.status === 'PLAYING' ? 'PAUSED' : 'LEVEL_CLEAR');
+    redraw();
+  };
+
+  const nextLevel = () => startLevel(levels, levelIndex + 1, score, lives, playerScores);
+
+  const changeStartingLives = (count: number) => {
+    const lives = clampStartingLives(count);
+    localStorage.setItem(STARTING_LIVES_KEY, String(lives));
+    setStartingLives(lives);
+  };
+
+  const changeGameMode = (id: GameModeId) => {
+    localStorage.setItem(GAME_MODE_KEY, id);
+    setGameMode(id);
+  };
+
+  const changePlayers = (id: PlayerMode) => {
+    localStorage.setItem(PLAYERS_KEY, id);
+    setPlayers(id);
+  };
+
+  const changeCoopScoring = (scoring: 'combined' | 'separate') => {
+    localStorage.setItem(COOP_SCORING_KEY, scoring);
+    setCoopScoring(scoring);
+  };
+
+  const changeDifficulty = (id: Difficulty) => {
+    localStorage.setItem(DIFFICULTY_KEY, id);
+    setDifficulty(id);
+  };
+
+  const saveCustomRules = (rules: GameRules) => {
+    localStorage.setItem(CUSTOM_RULES_KEY, JSON.stringify(rules));
+    setCustomRules(rules);
+    changeDifficulty('custom');
+    setPanel(null);
+  };
+
+  const openEditor = () => {
+    setEditing(true);
+    setGameState('START');
+  };
+
+  const closeEditor = () => {
+    setEditing(false);
+    setLevels(LEVELS);
+    setLevelIndex(0);
+  };
+
+  // Play a single custom map: the one being edited, or a generated one
+  const testPlay = (custom: LevelDefinition) => {
+    setDraftLevel(custom);
+    setEditing(false);
+    startLevel([custom], 0, 0, startingLives);
+  };
+
+  const watchReplay = (recorded: Replay) => {
+    const player = new ReplayPlayer(recorded);
+    const state = player.getState();
+    gameData.current.player = player;
+    gameData.current.replayPlaying = true;
+    gameData.current.previous = null;
+
+    setReplay(recorded);
+    setReplayError(null);
+    setReplayPlaying(true);
+    setReplayPosition(0);
+    setScore(state.score);
+    setPlayerScores([...state.playerScores]);
+    setLives(state.lives);
+    setPelletsLeft(state.pelletsLeft);
+    setLevels(recorded.segments.map(segment => segment.level));
+    setLevelIndex(0);
+    setGameState('REPLAY');
+  };
+
+  const exitReplay = () => {
+    gameData.current.player = null;
+    setLevels(LEVELS);
+    setLevelIndex(0);
+    setScore(0);
+    setGameState('START');
+  };
+
+  const toggleReplayPlaying = () => {
+    const player = gameData.current.player;
+    if (!player) return;
+    // Pressing play at the end starts over
+    if (!gameData.current.replayPlaying && player.finished) player.seek(0);
+    gameData.current.replayPlaying = !gameData.current.replayPlaying;
+    setReplayPlaying(gameData.current.replayPlaying);
+  };
+
+  const seekReplay = (tick: number) => {
+    gameData.current.player?.seek(tick);
+    gameData.current.accumulator = 0;
+    gameData.current.previous = null;
+  };
 
-    if (this.direction) {
-      if (this.direction === 'UP') this.y -= this.speed;
-      if (this.direction === 'DOWN') this.y += this.speed;
-      if (this.direction === 'LEFT') this.x -= this.speed;
-      if (this.direction === 'RIGHT') this.x += this.speed;
+  const changeReplaySpeed = (speed: number) => {
+    gameData.current.replaySpeed = speed;
+    setReplaySpeed(speed);
+  };
+
+  const exportReplay = () => {
+    if (!replay) return;
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pacman-replay-${replay.finalScore}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
-      this.gridX = Math.floor(this.x / TILE_SIZE);
-      this.gridY = Math.floor(this.y / TILE_SIZE);
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      watchReplay(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : String(err));
     }
-  }
-}
+  };
+
+  // What the WON and LOST overlays share
+  const gameOverProps = {
+    scoreSplit,
+    breakdown: runBreakdown,
+    unranked: players !== 'solo'
+      ? 'Two-player runs are not ranked.'
+      : difficulty === 'custom'
+        ? 'Runs with custom rules are not ranked.'
+        : debugged ? 'Runs changed with the debug tools are not ranked.' : null,
+    run: finishedRun,
+    onPlayAgain: initGame,
+    onWatchReplay: replay ? () => watchReplay(replay) : null,
+    onExportReplay: replay ? exportReplay : null,
+    onOpenEditor: isCustomLevel ? openEditor : null,
+  };
 
-class UltimateGhost extends Ghost {
-  constructor(gridX: number, gridY: number) {
-    super(gridX, gridY, '#6c5ce7');
-    this.speed = 3; // Faster than normal ghosts
-    this.merged = true; // It's already the result of merging
-  }
-
-  updateChasingAI(map: number[][], pacman: Entity) {
-    const centerX = this.gridX * TILE_SIZE + TILE_SIZE / 2;
-    const centerY = this.gridY * TILE_SIZE + TILE_SIZE / 2;
-    const atCenter = Math.abs(this.x - centerX) < this.speed && Math.abs(this.y - centerY) < this.speed;
-
-    if (atCenter || !this.direction) {
-      this.x = centerX;
-      this.y = centerY;
-
-      const directions: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
-      
-      // Simple BFS or Greedy towards Pacman
-      const available = directions.filter(d => this.canMove(d, map));
-      
-      if (available.length > 0) {
-        // Sort directions by distance to Pacman
-        available.sort((a, b) => {
-          let ax = this.gridX, ay = this.gridY;
-          let bx = this.gridX, by = this.gridY;
-          
-          if (a === 'UP') ay--; if (a === 'DOWN') ay++; if (a === 'LEFT') ax--; if (a === 'RIGHT') ax++;
-          if (b === 'UP') by--; if (b === 'DOWN') by++; if (b === 'LEFT') bx--; if (b === 'RIGHT') bx++;
-          
-          const distA = Math.hypot(ax - pacman.gridX, ay - pacman.gridY);
-          const distB = Math.hypot(bx - pacman.gridX, by - pacman.gridY);
-          return distA - distB;
-        });
-
-        // 80% chance to take the best path, 20% random to avoid getting stuck
-        if (Math.random() < 0.8) {
-          this.direction = available[0];
-        } else {
-          this.direction = available[Math.floor(Math.random() * available.length)];
-        }
+  const togglePause = () => setGameState(current => current === 'PLAYING' ? 'PAUSED' : current === 'PAUSED' ? 'PLAYING' : current);
+
+  const quitToMenu = () => {
+    saveRun();
+    gameData.current.sim = null;
+    setGameState('START');
+  };
+
+  // A fresh connection per room; the match starts as soon as the server has filled it
+  const connectOnline = (join: (client: OnlineClient) => void) => {
+    onlineRef.current?.close();
+    const client = new OnlineClient();
+    client.onChange = () => {
+      setOnlineVersion(v => v + 1);
+      if (client.status === 'playing' && client.level) {
+        sound.unlock();
+        setLevels([client.level]);
+        setLevelIndex(0);
+        setPanel(null);
+        setGameState('ONLINE');
+      } else if (client.status === 'over' || (client.status === 'closed' && client.level)) {
+        setGameState(current => (current === 'ONLINE' ? 'ONLINE_OVER' : current));
       }
-    }
+    };
+    join(client);
+    onlineRef.current = client;
+    setOnlineVersion(v => v + 1);
+  };
 
-    if (this.direction) {
-      if (this.direction === 'UP') this.y -= this.speed;
-      if (this.direction === 'DOWN') this.y += this.speed;
-      if (this.direction === 'LEFT') this.x -= this.speed;
-      if (this.direction === 'RIGHT') this.x += this.speed;
+  const createRoom = (name: string, mode: RoomMode) => connectOnline(client => client.create(name, mode));
 
-      this.gridX = Math.floor(this.x / TILE_SIZE);
-      this.gridY = Math.floor(this.y / TILE_SIZE);
-    }
-  }
-}
+  const joinRoom = (name: string, room: string) => connectOnline(client => client.join(name, room));
 
-export default function App() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [score, setScore] = useState(0);
-  const [gameState, setGameState] = useState<'START' | 'PLAYING' | 'WON' | 'LOST'>('START');
-  const [pelletsLeft, setPelletsLeft] = useState(0);
-  const pelletImageRef = useRef<HTMLImageElement | null>(null);
-  const successImageRef = useRef<HTMLImageElement | null>(null);
+  const leaveOnline = () => {
+    onlineRef.current?.close();
+    onlineRef.current = null;
+    setPanel(null);
+    setLevels(LEVELS);
+    setLevelIndex(0);
+    setScore(0);
+    setGameState('START');
+  };
+
+  // Footer hint, one group per binding slot, e.g. ↑↓←→ and WSAD. With two players, keys player two has taken are left out.
+  const twoPlayers = players !== 'solo';
+  const playerTwoKeys = new Set(twoPlayers ? (['P2_UP', 'P2_DOWN', 'P2_LEFT', 'P2_RIGHT'] as const).flatMap(action => input.bindings[action]) : []);
+  const keyGroups = (actions: InputAction[], taken: Set<string>) => [0, 1]
+    .map(slot => actions.map(action => input.bindings[action][slot]).map(key => (key && !taken.has(key) ? key : undefined)))
+    .filter(keys => keys.some(Boolean))
+    .map(keys => keys.map(key => (key ? formatKey(key) : '·')).join(''));
+  const moveKeys = keyGroups(['UP', 'DOWN', 'LEFT', 'RIGHT'], playerTwoKeys);
+  const playerTwoMoveKeys = twoPlayers ? keyGroups(['P2_UP', 'P2_DOWN', 'P2_LEFT', 'P2_RIGHT'], new Set()) : [];
+
+  const changeAudioSettings = (changes: Partial<AudioSettings>) => {
+    sound.updateSettings(changes);
+    setAudioSettings(sound.settings);
+  };
+
+  const changeTheme = (id: string) => {
+    localStorage.setItem(THEME_KEY, id);
+    setThemeId(id);
+  };
+
+  const importThemePack = (manifest: ThemeManifest) => {
+    localStorage.setItem(THEME_PACK_KEY, JSON.stringify(manifest));
+    setThemePack(manifest);
+    changeTheme(manifest.id);
+  };
+
+  const changeShowDPad = (show: boolean) => {
+    localStorage.setItem(SHOW_DPAD_KEY, String(show));
+    setShowDPad(show);
+  };
 
   useEffect(() => {
-    // Preload pellet image
-    const imgX = new Image();
-    imgX.src = '/x.jpg';
-    imgX.referrerPolicy = 'no-referrer';
-    imgX.onload = () => {
-      pelletImageRef.current = imgX;
-    };
+    input.onPause = togglePause;
+    input.onDebug = () => setDebug(on => !on);
+    input.onChange = () => setInputVersion(v => v + 1);
+    input.attach(window);
+    return () => input.detach();
+  }, []);
+
+  // Online each browser has one player, on player one's keys
+  useEffect(() => {
+    input.players = players === 'solo' || gameState === 'ONLINE' ? 1 : 2;
+  }, [players, gameState]);
+
+  useEffect(() => () => onlineRef.current?.close(), []);
+
+  // Nothing is animating while paused, so switching the overlay needs a frame of its own
+  useEffect(() => {
+    if (gameState === 'PAUSED') redraw();
+  }, [debug]);
+
+  // The canvas is swapped out for the editor, so swipes are re-attached whenever it comes back
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    return input.attachTouch(canvasRef.current);
+  }, [editing]);
 
-    // Preload success image
-    const imgZ = new Image();
-    imgZ.src = '/z.jpg';
-    imgZ.referrerPolicy = 'no-referrer';
-    imgZ.onload = () => {
-      successImageRef.current = imgZ;
+  // Never keep playing while nobody is watching
+  useEffect(() => {
+    const autoPause = () => setGameState(current => current === 'PLAYING' ? 'PAUSED' : current);
+    const handleVisibility = () => {
+      if (!document.hidden) return;
+      autoPause();
+      saveRun();
+    };
+    window.addEventListener('blur', autoPause);
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', saveRun);
+    return () => {
+      window.removeEventListener('blur', autoPause);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', saveRun);
     };
   }, []);
 
-  const gameData = useRef<{
-    pacman: Entity | null;
-    ghosts: Ghost[];
-    ultimateGhost: UltimateGhost | null;
-    map: number[][];
-    animationId: number | null;
-    mouthOpen: number;
-    mouthDir: number;
-    score: number;
-  }>({
-    pacman: null,
-    ghosts: [],
-    ultimateGhost: null,
-    map: [],
-    animationId: null,
-    mouthOpen: 0,
-    mouthDir: 0.1,
-    score: 0,
-  });
+  // Real time elapsed since the previous frame, capped so a long stall doesn't fast-forward the game
+  const frameDelta = (time: number): number => {
+    const { lastFrameTime } = gameData.current;
+    gameData.current.lastFrameTime = time;
+    if (lastFrameTime === null) return 0;
+    if (time > lastFrameTime) gameData.current.fps += (1000 / (time - lastFrameTime) - gameData.current.fps) * 0.1;
+    return Math.min(time - lastFrameTime, MAX_FRAME_MS);
+  };
 
-  useEffect(() => {
-    const interval = setInterval(() => {
-      if (gameState === 'PLAYING') {
-        const currentMap = gameData.current.map;
-        let respawnedCount = 0;
-
-        for (let y = 0; y < MAP.length; y++) {
-          for (let x = 0; x < MAP[y].length; x++) {
-            // If it was originally a pellet but is now empty
-            if (MAP[y][x] === TileType.PELLET && currentMap[y][x] === TileType.EMPTY) {
-              // Don't respawn on top of Pacman
-              if (gameData.current.pacman && gameData.current.pacman.gridX === x && gameData.current.pacman.gridY === y) {
-                continue;
-              }
-              currentMap[y][x] = TileType.PELLET;
-              respawnedCount++;
-            }
-          }
-        }
-
-        if (respawnedCount > 0) {
-          setPelletsLeft(prev => prev + respawnedCount);
-        }
-      }
-    }, 5000);
+  const renderFrame = (ctx: CanvasRenderingContext2D, state: SimulationState, alpha: number) => {
+    drawFrame(ctx, state, { theme: themeRef.current, previous: gameData.current.previous, alpha });
+    if (debugRef.current) drawDebugOverlay(ctx, state, { theme: themeRef.current, fps: gameData.current.fps });
+  };
 
-    return () => clearInterval(interval);
-  }, [gameState]);
+  // Show the board as it stands, e.g. while paused
+  const redraw = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const { sim } = gameData.current;
+    if (!ctx || !sim) return;
+    gameData.current.previous = null;
+    renderFrame(ctx, sim.getState(), 1);
+  };
+
+  // Room for the board: the page's width inside the card's padding, and most of the window's height
+  const canvasBounds = (): CanvasBounds => {
+    const card = cardRef.current;
+    const page = card?.parentElement;
+    const height = window.innerHeight * BOARD_HEIGHT_SHARE;
+    if (!card || !page) return { width: window.innerWidth, height };
+    const padding = (element: HTMLElement) => {
+      const style = getComputedStyle(element);
+      return parseFloat(style.paddingLeft) + parseFloat(style.paddingRight) + parseFloat(style.borderLeftWidth) + parseFloat(style.borderRightWidth);
+    };
+    // Less the canvas's own 1px border
+    return { width: page.clientWidth - padding(page) - padding(card) - 2, height };
+  };
+  const boardWidth = level.grid[0].length * TILE_SIZE;
+  const boardHeight = level.grid.length * TILE_SIZE;
+  // The animated states redraw on their next frame anyway
+  useFittedCanvas(canvasRef, boardWidth, boardHeight, canvasBounds, () => {
+    if (gameState !== 'PLAYING' && gameState !== 'REPLAY' && gameState !== 'ONLINE') redraw();
+  });
+  useFittedCanvas(opponentCanvasRef, boardWidth, boardHeight, () => {
+    const { width, height } = canvasBounds();
+    return { width: width * OPPONENT_BOARD_SHARE, height: height * OPPONENT_BOARD_SHARE };
+  });
+
+  // One tick, with whatever direction is buffered
+  const stepSimulation = (sim: GameSimulation): SimulationState => {
+    gameData.current.previous = captureActors(sim.getState());
+    const directions: Direction[] = Array.from({ length: input.players }, (_, player) => input.takeDirection(player));
+    sim.step({ directions }).forEach(event => sound.play(event));
+    const state = sim.getState();
+    gameData.current.recorder.record(state.tick, directions);
+    return state;
+  };
 
-  const initGame = () => {
-    const newMap = MAP.map(row => [...row]);
-    let pCount = 0;
-    let pacmanStart: Position = { x: 9, y: 15 };
-    const ghostStarts: Position[] = [];
-
-    for (let y = 0; y < newMap.length; y++) {
-      for (let x = 0; x < newMap[y].length; x++) {
-        if (newMap[y][x] === TileType.PELLET) pCount++;
-        if (newMap[y][x] === TileType.PACMAN_START) pacmanStart = { x, y };
-        if (newMap[y][x] === TileType.GHOST_START) ghostStarts.push({ x, y });
+  // Bring the HUD up to date, and wrap up the board once it is over
+  const syncRun = (prev: SimulationState, state: SimulationState, time: number) => {
+    if (state.score !== prev.score) {
+      setScore(state.score);
+      setPlayerScores([...state.playerScores]);
+    }
+    if (state.lives !== prev.lives) setLives(state.lives);
+    if (state.pelletsLeft !== prev.pelletsLeft) setPelletsLeft(state.pelletsLeft);
+    setPlayTicks(state.playTicks - state.playTicks % TICKS_PER_SECOND);
+    setGhostSpeedBoost(state.ghostSpeedBoost);
+    if (state.status !== 'PLAYING') {
+      gameData.current.runTicks += state.tick;
+      setRunSeconds(gameData.current.runTicks / TICKS_PER_SECOND);
+      gameData.current.runBreakdown = addBreakdowns(gameData.current.runBreakdown, state.breakdown);
+      setRunBreakdown(gameData.current.runBreakdown);
+      const cleared = runGoingOn(state);
+      if (cleared) {
+        saveRun();
+      } else {
+        setReplay(gameData.current.debugged ? null : gameData.current.recorder.finish(state));
+        clearSavedRun();
       }
+      setGameState(cleared ? 'LEVEL_CLEAR' : state.status);
+    } else if (gameData.current.lastSaveTime === null) {
+      gameData.current.lastSaveTime = time;
+    } else if (time - gameData.current.lastSaveTime >= AUTOSAVE_MS) {
+      gameData.current.lastSaveTime = time;
+      saveRun();
     }
+  };
 
-    gameData.current.map = newMap;
-    gameData.current.pacman = new Entity(pacmanStart.x, pacmanStart.y);
-    gameData.current.pacman.direction = 'LEFT'; // Start moving immediately
-    gameData.current.pacman.nextDirection = 'LEFT';
-    gameData.current.ghosts = ghostStarts.map((pos, i) => new Ghost(pos.x, pos.y, COLORS.GHOSTS[i % COLORS.GHOSTS.length]));
-    gameData.current.ultimateGhost = null;
-    gameData.current.mouthOpen = 0.2;
-    gameData.current.score = 0;
-    
-    setScore(0);
-    setPelletsLeft(pCount);
-    setGameState('PLAYING');
+  const markDebugged = () => {
+    gameData.current.debugged = true;
+    setDebugged(true);
   };
 
-  const handleKeyDown = (e: KeyboardEvent) => {
-    if (!gameData.current.pacman) return;
-    if (e.key === 'ArrowUp') gameData.current.pacman.nextDirection = 'UP';
-    if (e.key === 'ArrowDown') gameData.current.pacman.nextDirection = 'DOWN';
-    if (e.key === 'ArrowLeft') gameData.current.pacman.nextDirection = 'LEFT';
-    if (e.key === 'ArrowRight') gameData.current.pacman.nextDirection = 'RIGHT';
+  const debugStep = () => {
+    const { sim } = gameData.current;
+    if (!sim || gameState !== 'PAUSED') return;
+    const prev = sim.getState();
+    syncRun(prev, stepSimulation(sim), performance.now());
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) renderFrame(ctx, sim.getState(), 1);
   };
 
-  useEffect(() => {
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, []);
+  const debugForceMerge = () => {
+    const { sim } = gameData.current;
+    if (!sim) return;
+    const events = sim.forceMerge();
+    if (events.length === 0) return;
+    events.forEach(event => sound.play(event));
+    markDebugged();
+    redraw();
+  };
+
+  // With the overlay on, a click on the maze moves player one's Pac-Man there
+  const debugTeleport = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { sim } = gameData.current;
+    if (!debug || !sim || (gameState !== 'PLAYING' && gameState !== 'PAUSED')) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * level.grid[0].length);
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * level.grid.length);
+    if (!sim.teleportPacman(0, x, y)) return;
+    markDebugged();
+    redraw();
+  };
 
-  const draw = () => {
+  const draw = (time: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const { pacman, ghosts, map } = gameData.current;
-    if (!pacman) return;
-
-    // Clear
-    ctx.fillStyle = COLORS.BG;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Draw Map
-    for (let y = 0; y < map.length; y++) {
-      for (let x = 0; x < map[y].length; x++) {
-        const tile = map[y][x];
-        const px = x * TILE_SIZE;
-        const py = y * TILE_SIZE;
-
-        if (tile === TileType.WALL) {
-          ctx.fillStyle = COLORS.WALL;
-          // Draw rounded wall blocks
-          ctx.beginPath();
-          ctx.roundRect(px + 2, py + 2, TILE_SIZE - 4, TILE_SIZE - 4, 6);
-          ctx.fill();
-        } else if (tile === TileType.PELLET) {
-          if (pelletImageRef.current) {
-            ctx.drawImage(pelletImageRef.current, px + 6, py + 6, 20, 20);
-          } else {
-            ctx.fillStyle = COLORS.PELLET;
-            ctx.beginPath();
-            ctx.arc(px + TILE_SIZE / 2, py + TILE_SIZE / 2, 3, 0, Math.PI * 2);
-            ctx.fill();
-          }
-        }
-      }
+    const { sim } = gameData.current;
+    if (!sim) return;
+
+    // Fixed timestep: run as many whole ticks as real time allows, the first with the buffered input
+    const prev = sim.getState();
+    let state = prev;
+    gameData.current.accumulator += frameDelta(time);
+    while (gameData.current.accumulator >= TICK_MS && state.status === 'PLAYING') {
+      state = stepSimulation(sim);
+      gameData.current.accumulator -= TICK_MS;
     }
 
-    // Update Pacman
-    pacman.updatePosition(map);
-    
-    // Eat pellet
-    if (map[pacman.gridY][pacman.gridX] === TileType.PELLET) {
-      map[pacman.gridY][pacman.gridX] = TileType.EMPTY;
-      gameData.current.score += 10;
-      setScore(gameData.current.score);
-      
-      if (gameData.current.score >= 1800) {
-        setGameState('WON');
-      }
+    const moving = state.status === 'PLAYING' && state.readyTicks === 0 && state.dyingTicks === 0;
+    sound.setLoop(moving ? (state.frightenedTicks > 0 ? 'frightened' : 'siren') : null);
 
-      setPelletsLeft(p => {
-        if (p - 1 === 0) setGameState('WON');
-        return p - 1;
-      });
-    }
+    syncRun(prev, state, time);
+    renderFrame(ctx, state, gameData.current.accumulator / TICK_MS);
 
-    // Draw Pacman
-    ctx.fillStyle = COLORS.PACMAN;
-    ctx.beginPath();
-    const radius = TILE_SIZE / 2 - 4;
-    
-    // Animate mouth
-    gameData.current.mouthOpen += gameData.current.mouthDir;
-    if (gameData.current.mouthOpen > 0.25 || gameData.current.mouthOpen < 0.05) {
-      gameData.current.mouthDir *= -1;
+    if (state.status === 'PLAYING') {
+      gameData.current.animationId = requestAnimationFrame(draw);
     }
+  };
 
-    let rotation = 0;
-    if (pacman.direction === 'UP') rotation = -Math.PI / 2;
-    if (pacman.direction === 'DOWN') rotation = Math.PI / 2;
-    if (pacman.direction === 'LEFT') rotation = Math.PI;
-    if (pacman.direction === 'RIGHT') rotation = 0;
-
-    ctx.moveTo(pacman.x, pacman.y);
-    ctx.arc(
-      pacman.x, 
-      pacman.y, 
-      radius, 
-      rotation + gameData.current.mouthOpen * Math.PI, 
-      rotation + (2 - gameData.current.mouthOpen) * Math.PI
-    );
-    ctx.fill();
-
-    // Update & Draw Ghosts
-    ghosts.forEach(ghost => {
-      if (gameData.current.score >= 1500) ghost.isMerging = true;
-      
-      ghost.updateAI(map);
-      
-      // Collision detection (only if not merged)
-      if (!ghost.merged) {
-        const dist = Math.hypot(pacman.x - ghost.x, pacman.y - ghost.y);
-        if (dist < TILE_SIZE / 1.5 && !ghost.isMerging) {
-          setGameState('LOST');
-        }
-
-        ctx.save();
-        if (ghost.isMerging) ctx.globalAlpha = 0.6; // Make ghosts transparent when merging
-        
-        ctx.fillStyle = ghost.color;
-        ctx.beginPath();
-        // Simple ghost shape
-        ctx.arc(ghost.x, ghost.y - 2, radius, Math.PI, 0);
-        ctx.lineTo(ghost.x + radius, ghost.y + radius);
-        ctx.lineTo(ghost.x - radius, ghost.y + radius);
-        ctx.fill();
-        
-        // Eyes
-        ctx.fillStyle = 'white';
-        ctx.beginPath();
-        ctx.arc(ghost.x - 4, ghost.y - 4, 3, 0, Math.PI * 2);
-        ctx.arc(ghost.x + 4, ghost.y - 4, 3, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.fillStyle = 'black';
-        ctx.beginPath();
-        ctx.arc(ghost.x - 4, ghost.y - 4, 1.5, 0, Math.PI * 2);
-        ctx.arc(ghost.x + 4, ghost.y - 4, 1.5, 0, Math.PI * 2);
-        ctx.fill();
-        
-        ctx.restore();
+  const drawOnline = (time: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const client = onlineRef.current;
+    if (!ctx || !client) return;
+
+    const direction = input.takeDirection();
+    if (direction) client.sendInput(direction);
+
+    const frame = client.frame(time);
+    if (frame) {
+      const own = client.ownBoard;
+      drawFrame(ctx, frame.boards[own], { theme: themeRef.current, previous: frame.previous[own], alpha: frame.alpha });
+      // In a race the other board is shown small next to this one
+      const opponentCtx = opponentCanvasRef.current?.getContext('2d');
+      if (opponentCtx && client.mode === 'race' && frame.boards[1 - own]) {
+        drawFrame(opponentCtx, frame.boards[1 - own], { theme: themeRef.current, previous: frame.previous[1 - own], alpha: frame.alpha });
       }
-    });
 
-    // Draw merged entity if all are merged
-    const allMerged = ghosts.length > 0 && ghosts.every(g => g.merged);
-    if (allMerged) {
-      if (!gameData.current.ultimateGhost) {
-        gameData.current.ultimateGhost = new UltimateGhost(9, 9);
+      const board = client.latest![own];
+      const scores = client.scores;
+      setScore(scores[client.player] ?? 0);
+      setOpponentScore(scores[1 - client.player] ?? 0);
+      setLives(board.lives);
+      setPelletsLeft(board.pelletsLeft);
+    }
+
+    gameData.current.animationId = requestAnimationFrame(drawOnline);
+  };
+
+  const drawReplay = (time: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const player = gameData.current.player;
+    if (!ctx || !player) return;
+
+    const elapsed = frameDelta(time);
+    if (gameData.current.replayPlaying) {
+      gameData.current.accumulator += elapsed * gameData.current.replaySpeed;
+      while (gameData.current.accumulator >= TICK_MS && !player.finished) {
+        const segment = player.segment;
+        gameData.current.previous = captureActors(player.getState());
+        player.step();
+        if (player.segment !== segment) gameData.current.previous = null;
+        gameData.current.accumulator -= TICK_MS;
       }
-      
-      const ug = gameData.current.ultimateGhost;
-      ug.updateChasingAI(map, pacman);
-
-      // Collision detection with Ultimate Ghost
-      const dist = Math.hypot(pacman.x - ug.x, pacman.y - ug.y);
-      if (dist < TILE_SIZE / 1.2) {
-        setGameState('LOST');
+      if (player.finished) {
+        gameData.current.replayPlaying = false;
+        setReplayPlaying(false);
       }
-
-      ctx.fillStyle = '#6c5ce7'; // Purple for merged ghost
-      ctx.beginPath();
-      ctx.arc(ug.x, ug.y, radius * 1.8, 0, Math.PI * 2);
-      ctx.fill();
-      
-      // Big eyes for merged ghost
-      ctx.fillStyle = 'white';
-      ctx.beginPath();
-      ctx.arc(ug.x - 10, ug.y - 6, 8, 0, Math.PI * 2);
-      ctx.arc(ug.x + 10, ug.y - 6, 8, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.fillStyle = 'black';
-      ctx.beginPath();
-      ctx.arc(ug.x - 10, ug.y - 6, 4, 0, Math.PI * 2);
-      ctx.arc(ug.x + 10, ug.y - 6, 4, 0, Math.PI * 2);
-      ctx.fill();
-
-      // Text indicator
-      ctx.fillStyle = '#6c5ce7';
-      ctx.font = 'bold 20px sans-serif';
-      ctx.textAlign = 'center';
-      ctx.fillText('ULTIMATE GHOST', ug.x, ug.y + radius * 3);
     }
 
-    if (gameState === 'PLAYING') {
-      gameData.current.animationId = requestAnimationFrame(draw);
-    }
+    const state = player.getState();
+    setReplayPosition(player.position);
+    setScore(state.score);
+    setPlayerScores([...state.playerScores]);
+    setLives(state.lives);
+    setPelletsLeft(state.pelletsLeft);
+    setPlayTicks(state.playTicks - state.playTicks % TICKS_PER_SECOND);
+    setGhostSpeedBoost(state.ghostSpeedBoost);
+    setLevelIndex(player.segment);
+    renderFrame(ctx, state, gameData.current.replayPlaying ? gameData.current.accumulator / TICK_MS : 1);
+
+    gameData.current.animationId = requestAnimationFrame(drawReplay);
   };
 
   useEffect(() => {
+    // Time spent paused or on an overlay is never simulated
+    gameData.current.lastFrameTime = null;
+    gameData.current.accumulator = 0;
+    if (gameState !== 'PLAYING') sound.setLoop(null);
+
     if (gameState === 'PLAYING') {
       gameData.current.animationId = requestAnimationFrame(draw);
+    } else if (gameState === 'REPLAY') {
+      gameData.current.animationId = requestAnimationFrame(drawReplay);
+    } else if (gameState === 'ONLINE') {
+      gameData.current.animationId = requestAnimationFrame(drawOnline);
     } else {
       if (gameData.current.animationId) cancelAnimationFrame(gameData.current.animationId);
     }
@@ -514,116 +858,490 @@ export default function App() {
   }, [gameState]);
 
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-[#F8F9FA]">
+    <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-gray-50">
       <motion.div 
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
-        className="relative bg-white p-8 rounded-3xl shadow-xl border border-gray-100"
+        ref={cardRef}
+        className="relative max-w-full bg-white p-4 sm:p-8 rounded-3xl shadow-xl border border-gray-100"
       >
         <div className="flex items-center justify-between mb-6">
           <div>
             <h1 className="text-3xl font-bold tracking-tight text-gray-800">Pacman</h1>
             <p className="text-sm text-gray-400 font-medium uppercase tracking-widest">Minimalist Edition</p>
           </div>
-          <div className="text-right">
-            <p className="text-xs text-gray-400 uppercase font-bold tracking-wider">Score</p>
-            <p className="text-3xl font-mono font-bold text-emerald-500">{score.toString().padStart(5, '0')}</p>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => changeAudioSettings({ muted: !audioSettings.muted })}
+              className="p-2 rounded-full text-gray-400 hover:bg-gray-100 transition-colors"
+              aria-label={audioSettings.muted ? 'Unmute' : 'Mute'}
+            >
+              {audioSettings.muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+            </button>
+            {separateScores ? (
+              playerScores.map((points, player) => (
+                <div key={player} className="text-right">
+                  <p className="text-xs text-gray-400 uppercase font-bold tracking-wider">P{player + 1} Score</p>
+                  <p className="text-3xl font-mono font-bold" style={{ color: theme.pacmanColor(player) }}>{points.toString().padStart(5, '0')}</p>
+                </div>
+              ))
+            ) : (
+              <div className="text-right">
+                <p className="text-xs text-gray-400 uppercase font-bold tracking-wider">Score</p>
+                <p className="text-3xl font-mono font-bold text-emerald-500">{score.toString().padStart(5, '0')}</p>
+              </div>
+            )}
           </div>
         </div>
 
-        <div className="relative rounded-2xl overflow-hidden bg-gray-50 border border-gray-100">
-          <canvas
-            ref={canvasRef}
-            width={MAP[0].length * TILE_SIZE}
-            height={MAP.length * TILE_SIZE}
-            className="block"
-          />
-
-          <AnimatePresence>
-            {gameState !== 'PLAYING' && (
-              <motion.div
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                exit={{ opacity: 0 }}
-                className="absolute inset-0 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center text-center p-6"
-              >
-                {gameState === 'START' && (
-                  <>
-                    <div className="w-24 h-24 mb-6 overflow-hidden rounded-2xl shadow-md border border-gray-100">
-                      <img 
-                        src="/czjj.jpg" 
-                        alt="Start Icon" 
-                        className="w-full h-full object-cover"
-                        onError={(e) => {
-                          // Fallback if image fails
-                          e.currentTarget.src = 'https://picsum.photos/seed/start/200/200';
+        {editing ? (
+          <MazeEditor initialLevel={draftLevel} theme={theme} onPlay={testPlay} onClose={closeEditor} />
+        ) : (
+          <>
+            <div className="relative rounded-2xl overflow-hidden bg-gray-50 border border-gray-100">
+              <canvas ref={canvasRef} className="block" onClick={debugTeleport} />
+
+              <AnimatePresence>
+                {/* Paused with the debug overlay on, the board stays in view to be stepped through */}
+                {gameState !== 'PLAYING' && gameState !== 'REPLAY' && gameState !== 'ONLINE' && !debugPaused && (
+                  <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center text-center p-6"
+                  >
+                    {panel === 'controls' && (gameState === 'START' || gameState === 'PAUSED') && (
+                      <ControlsPanel
+                        input={input}
+                        showDPad={showDPad}
+                        onShowDPadChange={changeShowDPad}
+                        onClose={() => {
+                          input.cancelCapture();
+                          setPanel(null);
                         }}
                       />
-                    </div>
-                    <h2 className="text-2xl font-bold text-gray-800 mb-2">Ready to Play?</h2>
-                    <p className="text-gray-500 mb-8 max-w-xs">Use arrow keys to move and eat all the pellets. Avoid the ghosts!</p>
-                    <button
-                      onClick={initGame}
-                      className="px-8 py-3 bg-gray-900 text-white rounded-full font-bold hover:bg-gray-800 transition-colors shadow-lg"
-                    >
-                      Start Game
-                    </button>
-                  </>
-                )}
-
-                {gameState === 'WON' && (
-                  <>
-                    <div className="w-32 h-32 mb-6 overflow-hidden rounded-2xl shadow-lg border-4 border-emerald-100">
-                      <img 
-                        src="/z.jpg" 
-                        alt="Success" 
-                        className="w-full h-full object-cover"
-                        onError={(e) => {
-                          e.currentTarget.src = 'https://picsum.photos/seed/win/300/300';
+                    )}
+
+                    {panel === 'sound' && (gameState === 'START' || gameState === 'PAUSED') && (
+                      <SoundPanel settings={audioSettings} onChange={changeAudioSettings} onClose={() => setPanel(null)} />
+                    )}
+
+                    {panel === 'random' && gameState === 'START' && (
+                      <RandomMazePanel
+                        theme={theme}
+                        onPlay={randomLevel => {
+                          setPanel(null);
+                          testPlay(randomLevel);
                         }}
+                        onClose={() => setPanel(null)}
+                      />
+                    )}
+
+                    {panel === 'theme' && (gameState === 'START' || gameState === 'PAUSED') && (
+                      <ThemePanel
+                        themes={themes}
+                        selectedId={themeManifest.id}
+                        onSelect={changeTheme}
+                        onImport={importThemePack}
+                        onClose={() => setPanel(null)}
+                      />
+                    )}
+
+                    {panel === 'online' && gameState === 'START' && (
+                      <OnlinePanel client={onlineRef.current} onCreate={createRoom} onJoin={joinRoom} onClose={leaveOnline} />
+                    )}
+
+                    {panel === 'rules' && gameState === 'START' && (
+                      <RulesPanel rules={customRules} onSave={saveCustomRules} onClose={() => setPanel(null)} />
+                    )}
+
+                    {gameState === 'START' && !panel && (
+                      <>
+                        <OverlayImage
+                          src={themeManifest.overlays?.start}
+                          alt="Start Icon"
+                          className="w-24 h-24 mb-6 overflow-hidden rounded-2xl shadow-md border border-gray-100"
+                          fallback={
+                            <div className="w-24 h-24 mb-6 rounded-2xl bg-gray-100 flex items-center justify-center">
+                              <Ghost className="w-12 h-12 text-gray-500" />
+                            </div>
+                          }
+                        />
+                        <h2 className="text-2xl font-bold text-gray-800 mb-2">Ready to Play?</h2>
+                        <p className="text-gray-500 mb-6 max-w-xs">Move with the arrow keys, WASD, a gamepad or swipes and eat all the pellets. Avoid the ghosts!</p>
+                        <div className="flex items-center gap-2 mb-1 text-sm text-gray-500 font-medium">
+                          Mode
+                          {Object.values(GAME_MODES).map(({ id, label }) => (
+                            <button
+                              key={id}
+                              onClick={() => changeGameMode(id)}
+                              className={`px-3 h-8 rounded-full text-xs font-bold transition-colors ${
+                                id === gameMode ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-400 mb-3 max-w-xs">{GAME_MODES[gameMode].description}</p>
+                        <div className="flex items-center gap-2 mb-3 text-sm text-gray-500 font-medium">
+                          Difficulty
+                          {DIFFICULTIES.map(({ id, label }) => (
+                            <button
+                              key={id}
+                              onClick={() => changeDifficulty(id)}
+                              className={`px-3 h-8 rounded-full text-xs font-bold transition-colors ${
+                                id === difficulty ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                          <button
+                            onClick={() => setPanel('rules')}
+                            className="p-2 rounded-full text-gray-500 hover:bg-gray-100 transition-colors"
+                            aria-label="Edit custom rules"
+                          >
+                            <SlidersHorizontal className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <div className="flex items-center gap-2 mb-3 text-sm text-gray-500 font-medium">
+                          Players
+                          {PLAYER_MODES.map(({ id, label }) => (
+                            <button
+                              key={id}
+                              onClick={() => changePlayers(id)}
+                              className={`px-3 h-8 rounded-full text-xs font-bold transition-colors ${
+                                id === players ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                        {players === 'co-op' && (
+                          <div className="flex items-center gap-2 mb-3 text-sm text-gray-500 font-medium">
+                            Scores
+                            {(['combined', 'separate'] as const).map(scoring => (
+                              <button
+                                key={scoring}
+                                onClick={() => changeCoopScoring(scoring)}
+                                className={`px-3 h-8 rounded-full text-xs font-bold capitalize transition-colors ${
+                                  scoring === coopScoring ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                }`}
+                              >
+                                {scoring}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        {players === 'versus' && (
+                          <p className="text-xs text-gray-400 mb-3 max-w-xs">Player two steers a ghost, marked P2, and wins by catching Pac-Man's last life.</p>
+                        )}
+                        <div className="flex items-center gap-2 mb-6 text-sm text-gray-500 font-medium">
+                          Lives
+                          {Array.from({ length: MAX_STARTING_LIVES }, (_, i) => i + 1).map(count => (
+                            <button
+                              key={count}
+                              onClick={() => changeStartingLives(count)}
+                              className={`w-8 h-8 rounded-full text-xs font-bold transition-colors ${
+                                count === startingLives ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                              }`}
+                            >
+                              {count}
+                            </button>
+                          ))}
+                        </div>
+                        {savedRun && (
+                          <button
+                            onClick={continueRun}
+                            className="flex items-center gap-2 mb-3 px-8 py-3 bg-emerald-500 text-white rounded-full font-bold hover:bg-emerald-600 transition-colors shadow-lg"
+                          >
+                            <Play className="w-5 h-5" />
+                            Continue · Level {savedRun.levelIndex + 1} · {savedRun.board.score} pts
+                          </button>
+                        )}
+                        <div className="flex flex-wrap justify-center gap-3">
+                          <button
+                            onClick={initGame}
+                            className="px-8 py-3 bg-gray-900 text-white rounded-full font-bold hover:bg-gray-800 transition-colors shadow-lg"
+                          >
+                            Start Game
+                          </button>
+                          <button
+                            onClick={openEditor}
+                            className="flex items-center gap-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Pencil className="w-4 h-4" />
+                            Maze Editor
+                          </button>
+                          <button
+                            onClick={() => setPanel('random')}
+                            className="flex items-center gap-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Shuffle className="w-4 h-4" />
+                            Random Maze
+                          </button>
+                          <button
+                            onClick={() => setPanel('online')}
+                            className="flex items-center gap-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Globe className="w-4 h-4" />
+                            Play Online
+                          </button>
+                          <button
+                            onClick={() => replayInputRef.current?.click()}
+                            className="flex items-center gap-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Upload className="w-4 h-4" />
+                            Load Replay
+                          </button>
+                          <button
+                            onClick={() => setPanel('controls')}
+                            className="flex items-center gap-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Keyboard className="w-4 h-4" />
+                            Controls
+                          </button>
+                          <button
+                            onClick={() => setPanel('sound')}
+                            className="flex items-center gap-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Volume2 className="w-4 h-4" />
+                            Sound
+                          </button>
+                          <button
+                            onClick={() => setPanel('theme')}
+                            className="flex items-center gap-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Palette className="w-4 h-4" />
+                            Theme
+                          </button>
+                          <input ref={replayInputRef} type="file" accept=".json,application/json" className="hidden" onChange={importReplay} />
+                        </div>
+                        {replayError && <p className="text-red-600 text-xs mt-4 max-w-xs">Could not load replay: {replayError}</p>}
+                      </>
+                    )}
+
+                    {gameState === 'PAUSED' && !panel && (
+                      <>
+                        <div className="w-20 h-20 bg-gray-100 rounded-full flex items-center justify-center mb-6">
+                          <Pause className="w-10 h-10 text-gray-600" />
+                        </div>
+                        <h2 className="text-3xl font-bold text-gray-800 mb-2">Paused</h2>
+                        <p className="text-gray-500 mb-8">Press {input.bindings.PAUSE.map(formatKey).join(' or ')} to carry on.</p>
+                        <div className="flex flex-col gap-3">
+                          <button
+                            onClick={togglePause}
+                            className="flex items-center justify-center gap-2 px-8 py-3 bg-emerald-500 text-white rounded-full font-bold hover:bg-emerald-600 transition-colors shadow-lg"
+                          >
+                            <Play className="w-5 h-5" />
+                            Resume
+                          </button>
+                          <button
+                            onClick={initGame}
+                            className="flex items-center justify-center gap-2 px-8 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <RotateCcw className="w-5 h-5" />
+                            Restart
+                          </button>
+                          <button
+                            onClick={quitToMenu}
+                            className="flex items-center justify-center gap-2 px-8 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Home className="w-5 h-5" />
+                            Quit to Menu
+                          </button>
+                          <button
+                            onClick={() => setPanel('controls')}
+                            className="flex items-center justify-center gap-2 px-8 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Keyboard className="w-5 h-5" />
+                            Controls
+                          </button>
+                          <button
+                            onClick={() => setPanel('sound')}
+                            className="flex items-center justify-center gap-2 px-8 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Volume2 className="w-5 h-5" />
+                            Sound
+                          </button>
+                          <button
+                            onClick={() => setPanel('theme')}
+                            className="flex items-center justify-center gap-2 px-8 py-3 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+                          >
+                            <Palette className="w-5 h-5" />
+                            Theme
+                          </button>
+                        </div>
+                      </>
+                    )}
+
+                    {gameState === 'ONLINE_OVER' && online && (
+                      <>
+                        <div className="w-20 h-20 bg-gray-100 rounded-full flex items-center justify-center mb-6">
+                          {online.result?.winner === online.player ? (
+                            <Trophy className="w-10 h-10 text-emerald-600" />
+                          ) : (
+                            <Globe className="w-10 h-10 text-gray-600" />
+                          )}
+                        </div>
+                        <h2 className="text-3xl font-bold text-gray-800 mb-2">
+                          {!online.result ? 'Disconnected' : online.result.winner === null ? 'A Draw!' : online.result.winner === online.player ? 'You Win!' : 'You Lose'}
+                        </h2>
+                        <p className="text-gray-500 mb-2">{online.result ? onlineResultMessage[online.result.reason] : 'The connection to the game server was lost.'}</p>
+                        {online.result && (
+                          <p className="text-sm font-bold text-gray-700 mb-8">
+                            {online.players.map((name, i) => `${name}: ${online.result!.scores[i] ?? 0}`).join(' · ')}
+                          </p>
+                        )}
+                        <button
+                          onClick={leaveOnline}
+                          className="flex items-center gap-2 px-8 py-3 bg-gray-900 text-white rounded-full font-bold hover:bg-gray-800 transition-colors shadow-lg"
+                        >
+                          <Home className="w-5 h-5" />
+                          Back to Menu
+                        </button>
+                      </>
+                    )}
+
+                    {gameState === 'LEVEL_CLEAR' && (
+                      <>
+                        <div className="w-20 h-20 bg-emerald-100 rounded-full flex items-center justify-center mb-6">
+                          <Trophy className="w-10 h-10 text-emerald-600" />
+                        </div>
+                        <h2 className="text-3xl font-bold text-gray-800 mb-2">Level Clear!</h2>
+                        <p className="text-gray-500 mb-8">Next up: {levels[levelIndex + 1]?.name}. Your score of {score} carries over.</p>
+                        <button
+                          onClick={nextLevel}
+                          className="flex items-center gap-2 px-8 py-3 bg-emerald-500 text-white rounded-full font-bold hover:bg-emerald-600 transition-colors shadow-lg"
+                        >
+                          <Play className="w-5 h-5" />
+                          Next Level
+                        </button>
+                      </>
+                    )}
+
+                    {gameState === 'WON' && (
+                      <GameOver
+                        outcome="won"
+                        badge={
+                          <OverlayImage
+                            src={themeManifest.overlays?.victory}
+                            alt="Success"
+                            className="w-32 h-32 mb-6 overflow-hidden rounded-2xl shadow-lg border-4 border-emerald-100"
+                            fallback={
+                              <div className="w-20 h-20 bg-emerald-100 rounded-full flex items-center justify-center mb-6">
+                                <Trophy className="w-10 h-10 text-emerald-600" />
+                              </div>
+                            }
+                          />
+                        }
+                        title={wonTitle}
+                        message={wonMessage}
+                        playAgainLabel="Play Again"
+                        {...gameOverProps}
+                      />
+                    )}
+
+                    {gameState === 'LOST' && (
+                      <GameOver
+                        outcome="lost"
+                        badge={
+                          <div className="w-20 h-20 bg-red-100 rounded-full flex items-center justify-center mb-6">
+                            <Skull className="w-10 h-10 text-red-600" />
+                          </div>
+                        }
+                        title={lostTitle}
+                        message={lostMessage}
+                        playAgainLabel="Try Again"
+                        {...gameOverProps}
                       />
-                    </div>
-                    <h2 className="text-3xl font-bold text-gray-800 mb-2">Victory!</h2>
-                    <p className="text-gray-500 mb-8">Congratulations! You reached 1800 points!</p>
-                    <button
-                      onClick={initGame}
-                      className="flex items-center gap-2 px-8 py-3 bg-emerald-500 text-white rounded-full font-bold hover:bg-emerald-600 transition-colors shadow-lg"
-                    >
-                      <RotateCcw className="w-5 h-5" />
-                      Play Again
-                    </button>
-                  </>
+                    )}
+                  </motion.div>
                 )}
+              </AnimatePresence>
+            </div>
+
+            {online?.mode === 'race' && (
+              <div className="mt-4 flex items-center gap-4">
+                <canvas ref={opponentCanvasRef} className="block rounded-xl border border-gray-100" />
+                <div className="text-sm text-gray-500">
+                  <p className="text-xs uppercase font-bold tracking-wider text-gray-400">{online.players[1 - online.player] ?? 'Opponent'}</p>
+                  <p className="text-2xl font-mono font-bold text-gray-700">{opponentScore.toString().padStart(5, '0')}</p>
+                </div>
+              </div>
+            )}
 
-                {gameState === 'LOST' && (
-                  <>
-                    <div className="w-20 h-20 bg-red-100 rounded-full flex items-center justify-center mb-6">
-                      <Skull className="w-10 h-10 text-red-600" />
-                    </div>
-                    <h2 className="text-3xl font-bold text-gray-800 mb-2">Game Over</h2>
-                    <p className="text-gray-500 mb-8">The ghosts caught you. Final score: {score}</p>
-                    <button
-                      onClick={initGame}
-                      className="flex items-center gap-2 px-8 py-3 bg-gray-900 text-white rounded-full font-bold hover:bg-gray-800 transition-colors shadow-lg"
-                    >
-                      <RotateCcw className="w-5 h-5" />
-                      Try Again
-                    </button>
-                  </>
-                )}
-              </motion.div>
+            {gameState === 'REPLAY' && replay && (
+              <ReplayControls
+                playing={replayPlaying}
+                position={replayPosition}
+                total={gameData.current.player?.totalTicks ?? 0}
+                speed={replaySpeed}
+                onTogglePlay={toggleReplayPlaying}
+                onSeek={seekReplay}
+                onSpeedChange={changeReplaySpeed}
+                onExport={exportReplay}
+                onExit={exitReplay}
+              />
             )}
-          </AnimatePresence>
-        </div>
 
-        <div className="mt-6 flex justify-between items-center text-gray-400 text-sm font-medium">
-          <div className="flex gap-4">
-            <span className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-gray-100 rounded border border-gray-200 text-[10px]">↑↓←→</kbd> Move
-            </span>
-          </div>
-          <p>Pellets Left: {pelletsLeft}</p>
-        </div>
+            {debug && (gameState === 'PLAYING' || gameState === 'PAUSED') && (
+              <DebugPanel paused={gameState === 'PAUSED'} onTogglePause={togglePause} onStep={debugStep} onForceMerge={debugForceMerge} />
+            )}
+
+            {showDPad && (gameState === 'PLAYING' || gameState === 'PAUSED') && <DPad onPress={dir => input.press(dir)} />}
+
+            <div className="mt-6 flex justify-between items-center text-gray-400 text-sm font-medium">
+              <div className="flex gap-4">
+                <span className="flex items-center gap-1.5">
+                  {moveKeys.map(keys => (
+                    <kbd key={keys} className="px-2 py-1 bg-gray-100 rounded border border-gray-200 text-[10px]">{keys}</kbd>
+                  ))}
+                  {twoPlayers ? 'P1' : 'Move'}
+                </span>
+                {twoPlayers && (
+                  <span className="flex items-center gap-1.5">
+                    {playerTwoMoveKeys.map(keys => (
+                      <kbd key={keys} className="px-2 py-1 bg-gray-100 rounded border border-gray-200 text-[10px]">{keys}</kbd>
+                    ))}
+                    P2
+                  </span>
+                )}
+                <span className="flex items-center gap-1.5">
+                  {input.bindings.PAUSE.map(key => (
+                    <kbd key={key} className="px-2 py-1 bg-gray-100 rounded border border-gray-200 text-[10px]">{formatKey(key)}</kbd>
+                  ))}
+                  Pause
+                </span>
+                {input.gamepadConnected && (
+                  <span className="flex items-center gap-1.5">
+                    <Gamepad2 className="w-4 h-4" /> Gamepad
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-4">
+                {online ? (
+                  <p>Online {online.mode === 'race' ? 'Race' : 'Shared Board'} · Room {online.room}</p>
+                ) : (
+                  <p>{mode.label} · Level {levelIndex + 1} · {level.name}</p>
+                )}
+                {online?.mode === 'shared' && <p>{online.players[1 - online.player] ?? 'Partner'}: {opponentScore}</p>}
+                {!online && timeLeftTicks !== null && <p className="font-mono text-gray-600">Time {formatTime(timeLeftTicks)}</p>}
+                {!online && mode.survivalPointsPerSecond > 0 && <p className="font-mono text-gray-600">Survived {formatTime(playTicks)}</p>}
+                {!online && ghostSpeedBoost > 0 && <p>Ghosts +{ghostSpeedBoost}</p>}
+                <p className="flex items-center gap-1.5">
+                  Lives:
+                  {Array.from({ length: lives }, (_, i) => (
+                    <span key={i} className="w-3 h-3 rounded-full" style={{ background: themeManifest.palette.pacman }} />
+                  ))}
+                </p>
+                <p>Pellets Left: {pelletsLeft}</p>
+              </div>
+            </div>
+          </>
+        )}
       </motion.div>
     </div>
   );
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameModeId } from './game/modes';
+import { Replay } from './game/replay';
+import { Difficulty } from './game/rules';
+
+// Client for the score server in server/ (proxied under /api by the dev server)
+
+export interface RunSubmission {
+  name: string;
+  score: number;
+  level: number;
+  durationSeconds: number;
+  mapId: string;
+  mode: GameModeId;
+  difficulty: Difficulty;
+  grid?: number[][];
+  replay?: Replay;
+}
+
+export interface LeaderboardEntry {
+  id: number;
+  name: string;
+  score: number;
+  level: number;
+  durationSeconds: number;
+  mapId: string;
+  mode: GameModeId;
+  difficulty: Difficulty;
+  verified: number; // 1 when the server reproduced the score from the submitted replay
+  createdAt: string;
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error ?? `Request failed with status ${response.status}`);
+  return body as T;
+}
+
+export function submitRun(run: RunSubmission): Promise<{ run: LeaderboardEntry; rank: number }> {
+  return request('/runs', { method: 'POST', body: JSON.stringify(run) });
+}
+
+export async function fetchLeaderboard(mapId: string, mode: GameModeId, difficulty: Difficulty, limit = 10): Promise<LeaderboardEntry[]> {
+  const params = new URLSearchParams({ mapId, mode, difficulty, limit: String(limit) });
+  const { entries } = await request<{ entries: LeaderboardEntry[] }>(`/leaderboard?${params}`);
+  return entries;
+}
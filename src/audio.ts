@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent } from './game/types';
+
+// Every sound is synthesized on the fly with Web Audio; there are no audio files to load
+
+export interface AudioSettings {
+  master: number; // 0..1
+  music: number;
+  effects: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  music: 0.5,
+  effects: 0.8,
+  muted: false,
+};
+
+// Background loop: the normal siren, or the warbling one while ghosts are frightened
+export type MusicLoop = 'siren' | 'frightened' | null;
+
+type Bus = 'music' | 'effects';
+
+interface ToneOptions {
+  type?: OscillatorType;
+  slideTo?: number; // Glide to this frequency over the tone's duration
+  volume?: number;
+  delay?: number; // Seconds from now
+  bus?: Bus;
+}
+
+const SETTINGS_KEY = 'pacman.audio';
+
+const LOOPS: Record<NonNullable<MusicLoop>, { type: OscillatorType; base: number; depth: number; rate: number }> = {
+  siren: { type: 'sine', base: 380, depth: 90, rate: 2.5 },
+  frightened: { type: 'square', base: 160, depth: 60, rate: 9 },
+};
+
+function loadSettings(): AudioSettings {
+  try {
+    return { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') };
+  } catch {
+    return { ...DEFAULT_AUDIO_SETTINGS };
+  }
+}
+
+export class SoundEngine {
+  settings: AudioSettings = loadSettings();
+  private ctx: AudioContext | null = null;
+  private buses: Record<Bus | 'master', GainNode> | null = null;
+  private loop: { name: NonNullable<MusicLoop>; nodes: OscillatorNode[]; gain: GainNode } | null = null;
+  private wakaHigh: boolean = false;
+
+  // Browsers only allow audio after a user gesture, so call this from a click handler
+  unlock() {
+    if (!this.ctx) {
+      this.ctx = new AudioContext();
+      const master = this.ctx.createGain();
+      const music = this.ctx.createGain();
+      const effects = this.ctx.createGain();
+      music.connect(master);
+      effects.connect(master);
+      master.connect(this.ctx.destination);
+      this.buses = { master, music, effects };
+      this.applySettings();
+    }
+    if (this.ctx.state === 'suspended') this.ctx.resume();
+  }
+
+  updateSettings(changes: Partial<AudioSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    this.applySettings();
+  }
+
+  // React to what happened during a simulation step
+  play(event: GameEvent) {
+    switch (event.type) {
+      case 'PELLET_EATEN':
+        // Alternate two short glides: the "waka waka"
+        this.wakaHigh = !this.wakaHigh;
+        if (this.wakaHigh) this.tone(260, 0.09, { type: 'triangle', slideTo: 480, volume: 0.35 });
+        else this.tone(480, 0.09, { type: 'triangle', slideTo: 260, volume: 0.35 });
+        break;
+      case 'POWER_PELLET_EATEN':
+        this.tone(200, 0.3, { type: 'square', slideTo: 600, volume: 0.25 });
+        break;
+      case 'GHOST_EATEN':
+        this.tone(180, 0.25, { type: 'sawtooth', slideTo: 1400, volume: 0.3 });
+        break;
+      case 'FRUIT_EATEN':
+        this.tone(660, 0.12, { type: 'triangle', slideTo: 990, volume: 0.3 });
+        this.tone(990, 0.16, { type: 'triangle', slideTo: 1320, volume: 0.3, delay: 0.12 });
+        break;
+      case 'EXTRA_LIFE':
+        [0, 0.12, 0.24].forEach(delay => this.tone(1320, 0.08, { type: 'square', volume: 0.2, delay }));
+        break;
+      case 'PELLETS_RESPAWNED':
+        this.tone(880, 0.06, { type: 'sine', volume: 0.15 });
+        break;
+      case 'MERGE_STARTED':
+        // Ominous falling arpeggio as the ghosts head for the centre
+        [523, 415, 330, 262, 208].forEach((freq, i) => this.tone(freq, 0.16, { type: 'square', volume: 0.25, delay: i * 0.15 }));
+        break;
+      case 'ULTIMATE_GHOST_SPAWNED':
+        this.tone(90, 0.9, { type: 'sawtooth', slideTo: 40, volume: 0.5 });
+        this.noise(0.6, 0.3);
+        break;
+      case 'PACMAN_DIED':
+        // Wobbling fall, then two blips
+        for (let i = 0; i < 6; i++) {
+          const start = 900 - i * 120;
+          this.tone(start, 0.14, { type: 'triangle', slideTo: start - 200, volume: 0.3, delay: i * 0.14 });
+        }
+        [0.95, 1.1].forEach(delay => this.tone(120, 0.08, { type: 'square', volume: 0.3, delay }));
+        break;
+      case 'WON':
+        [523, 659, 784, 1047].forEach((freq, i) => this.tone(freq, i === 3 ? 0.5 : 0.14, { type: 'square', volume: 0.25, delay: i * 0.14, bus: 'music' }));
+        break;
+      case 'LOST':
+        [392, 330, 262].forEach((freq, i) => this.tone(freq, 0.3, { type: 'triangle', volume: 0.3, delay: 0.3 + i * 0.3, bus: 'music' }));
+        break;
+    }
+  }
+
+  setLoop(name: MusicLoop) {
+    if (this.loop?.name === name) return;
+    if (this.loop) {
+      const { nodes, gain } = this.loop;
+      const now = this.ctx!.currentTime;
+      gain.gain.setTargetAtTime(0, now, 0.03);
+      nodes.forEach(node => node.stop(now + 0.2));
+      this.loop = null;
+    }
+    if (!name || !this.ctx || !this.buses) return;
+
+    // A steady tone whose pitch is swept up and down by a slow oscillator
+    const { type, base, depth, rate } = LOOPS[name];
+    const now = this.ctx.currentTime;
+    const osc = this.ctx.createOscillator();
+    const lfo = this.ctx.createOscillator();
+    const lfoGain = this.ctx.createGain();
+    const gain = this.ctx.createGain();
+    osc.type = type;
+    osc.frequency.value = base;
+    lfo.frequency.value = rate;
+    lfoGain.gain.value = depth;
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.setTargetAtTime(0.12, now, 0.05);
+    lfo.connect(lfoGain).connect(osc.frequency);
+    osc.connect(gain).connect(this.buses.music);
+    osc.start(now);
+    lfo.start(now);
+    this.loop = { name, nodes: [osc, lfo], gain };
+  }
+
+  private applySettings() {
+    if (!this.buses || !this.ctx) return;
+    const { master, music, effects, muted } = this.settings;
+    const now = this.ctx.currentTime;
+    this.buses.master.gain.setTargetAtTime(muted ? 0 : master, now, 0.01);
+    this.buses.music.gain.setTargetAtTime(music, now, 0.01);
+    this.buses.effects.gain.setTargetAtTime(effects, now, 0.01);
+  }
+
+  private tone(freq: number, duration: number, { type = 'square', slideTo, volume = 0.3, delay = 0, bus = 'effects' }: ToneOptions = {}) {
+    if (!this.ctx || !this.buses) return;
+    const start = this.ctx.currentTime + delay;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+    osc.type = type;
+    osc.frequency.setValueAtTime(freq, start);
+    if (slideTo !== undefined) osc.frequency.exponentialRampToValueAtTime(slideTo, start + duration);
+    // Short attack and release so notes don't click
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(volume, start + 0.01);
+    gain.gain.setValueAtTime(volume, start + duration - 0.02);
+    gain.gain.linearRampToValueAtTime(0, start + duration);
+    osc.connect(gain).connect(this.buses[bus]);
+    osc.start(start);
+    osc.stop(start + duration);
+  }
+
+  private noise(duration: number, volume: number) {
+    if (!this.ctx || !this.buses) return;
+    const length = Math.floor(this.ctx.sampleRate * duration);
+    const buffer = this.ctx.createBuffer(1, length, this.ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    // Fading white noise
+    for (let i = 0; i < length; i++) data[i] = (Math.random() * 2 - 1) * (1 - i / length);
+
+    const source = this.ctx.createBufferSource();
+    const gain = this.ctx.createGain();
+    source.buffer = buffer;
+    gain.gain.value = volume;
+    source.connect(gain).connect(this.buses.effects);
+    source.start();
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RefObject, useEffect, useLayoutEffect, useRef } from 'react';
+
+// Boards are drawn in board pixels (TILE_SIZE per tile); these size canvases for the page and the display
+
+export interface CanvasBounds {
+  width: number;
+  height: number;
+}
+
+// Smallest scale a board is shrunk to, however little room there is
+const MIN_SCALE = 0.2;
+
+// Show a `width` x `height` board as large as fits `bounds`, never above its own size, with a backing
+// store at the display's pixel density so it stays sharp. Resizing clears the canvas; returns whether it did
+export function fitCanvas(canvas: HTMLCanvasElement, width: number, height: number, bounds?: CanvasBounds): boolean {
+  const scale = bounds ? Math.max(MIN_SCALE, Math.min(1, bounds.width / width, bounds.height / height)) : 1;
+  const shownWidth = Math.floor(width * scale);
+  const shownHeight = Math.floor(height * scale);
+  const cssWidth = `${shownWidth}px`;
+  const cssHeight = `${shownHeight}px`;
+  const density = window.devicePixelRatio || 1;
+  const pixelWidth = Math.round(shownWidth * density);
+  const pixelHeight = Math.round(shownHeight * density);
+  // The board size the transform below was set for
+  const board = `${width}x${height}`;
+  if (
+    canvas.width === pixelWidth && canvas.height === pixelHeight &&
+    canvas.style.width === cssWidth && canvas.style.height === cssHeight && canvas.dataset.board === board
+  ) return false;
+
+  canvas.width = pixelWidth;
+  canvas.height = pixelHeight;
+  canvas.style.width = cssWidth;
+  canvas.style.height = cssHeight;
+  canvas.dataset.board = board;
+  canvas.getContext('2d')?.setTransform(pixelWidth / width, 0, 0, pixelHeight / height, 0, 0);
+  return true;
+}
+
+// Keep a canvas fitted as the board, the window and the pixel density change. `bounds` measures the room
+// it has (none: shown at its own size); `onResize` redraws it after a resize has cleared it
+export function useFittedCanvas(
+  ref: RefObject<HTMLCanvasElement | null>,
+  width: number,
+  height: number,
+  bounds?: () => CanvasBounds,
+  onResize?: () => void,
+) {
+  const latest = useRef({ width, height, bounds, onResize });
+  latest.current = { width, height, bounds, onResize };
+
+  const fit = () => {
+    const canvas = ref.current;
+    const { width, height, bounds, onResize } = latest.current;
+    if (canvas && fitCanvas(canvas, width, height, bounds?.())) onResize?.();
+  };
+
+  // After every render: the canvas may be new, or the board a new size
+  useLayoutEffect(fit);
+
+  useEffect(() => {
+    // Moving to a screen with another pixel density doesn't always fire a resize
+    let density: MediaQueryList | null = null;
+    const onDensityChange = () => {
+      fit();
+      watchDensity();
+    };
+    const watchDensity = () => {
+      density?.removeEventListener('change', onDensityChange);
+      density = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+      density.addEventListener('change', onDensityChange);
+    };
+    watchDensity();
+    window.addEventListener('resize', fit);
+    return () => {
+      density?.removeEventListener('change', onDensityChange);
+      window.removeEventListener('resize', fit);
+    };
+  }, []);
+}
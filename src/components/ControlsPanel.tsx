@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Gamepad2, RotateCcw, X } from 'lucide-react';
+import { INPUT_ACTIONS, InputAction, InputManager, formatKey } from '../input';
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  UP: 'Up',
+  DOWN: 'Down',
+  LEFT: 'Left',
+  RIGHT: 'Right',
+  PAUSE: 'Pause',
+  DEBUG: 'Debug overlay',
+  P2_UP: 'P2 Up',
+  P2_DOWN: 'P2 Down',
+  P2_LEFT: 'P2 Left',
+  P2_RIGHT: 'P2 Right',
+};
+
+const SLOTS = 2;
+
+interface ControlsPanelProps {
+  input: InputManager;
+  showDPad: boolean;
+  onShowDPadChange: (show: boolean) => void;
+  onClose: () => void;
+}
+
+// Key rebinding; re-rendered by the parent whenever the input manager reports a change
+export default function ControlsPanel({ input, showDPad, onShowDPadChange, onClose }: ControlsPanelProps) {
+  const capturing = input.capturing;
+
+  return (
+    <div className="w-full max-w-xs text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 text-center">Controls</h2>
+      <table className="w-full text-sm mb-4">
+        <tbody>
+          {INPUT_ACTIONS.map(action => (
+            <tr key={action}>
+              <td className="py-1 text-gray-600 font-medium">{ACTION_LABELS[action]}</td>
+              {Array.from({ length: SLOTS }, (_, slot) => {
+                const waiting = capturing?.action === action && capturing.slot === slot;
+                const key = input.bindings[action][slot];
+                return (
+                  <td key={slot} className="py-1 pl-2">
+                    <button
+                      onClick={() => (waiting ? input.cancelCapture() : input.captureNext(action, slot))}
+                      className={`w-full px-2 py-1 rounded border text-xs font-mono ${
+                        waiting ? 'border-emerald-500 bg-emerald-50 text-emerald-700' : 'border-gray-200 bg-gray-50 hover:bg-gray-100'
+                      }`}
+                    >
+                      {waiting ? 'Press a key…' : key ? formatKey(key) : '—'}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+        <input type="checkbox" checked={showDPad} onChange={e => onShowDPadChange(e.target.checked)} />
+        Show on-screen D-pad
+      </label>
+      <p className="flex items-center gap-1.5 text-xs text-gray-400 mb-2">
+        <Gamepad2 className="w-4 h-4" />
+        {input.gamepadConnected ? 'Gamepad connected: d-pad or left stick moves, Start pauses.' : 'Press a button on a gamepad to use it.'}
+      </p>
+      <p className="text-xs text-gray-400 mb-6">
+        P2 keys only count in two-player games, where they take priority over player one's. A second gamepad steers player two.
+      </p>
+
+      <div className="flex gap-2 justify-center">
+        <button
+          onClick={() => input.resetBindings()}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Defaults
+        </button>
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-900 text-white rounded-full font-bold hover:bg-gray-800 transition-colors shadow-lg"
+        >
+          <X className="w-4 h-4" />
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from 'lucide-react';
+import { Direction } from '../game/types';
+
+const BUTTONS: { dir: NonNullable<Direction>; icon: typeof ChevronUp; className: string }[] = [
+  { dir: 'UP', icon: ChevronUp, className: 'col-start-2 row-start-1' },
+  { dir: 'LEFT', icon: ChevronLeft, className: 'col-start-1 row-start-2' },
+  { dir: 'RIGHT', icon: ChevronRight, className: 'col-start-3 row-start-2' },
+  { dir: 'DOWN', icon: ChevronDown, className: 'col-start-2 row-start-3' },
+];
+
+interface DPadProps {
+  onPress: (dir: NonNullable<Direction>) => void;
+}
+
+// On-screen arrows for touch screens; fires on pointer down so there is no click delay
+export default function DPad({ onPress }: DPadProps) {
+  return (
+    <div className="mt-6 mx-auto grid grid-cols-3 grid-rows-3 gap-1 w-40 h-40 select-none touch-none">
+      {BUTTONS.map(({ dir, icon: Icon, className }) => (
+        <button
+          key={dir}
+          onPointerDown={e => {
+            e.preventDefault();
+            onPress(dir);
+          }}
+          className={`${className} flex items-center justify-center bg-gray-100 rounded-xl text-gray-600 active:bg-gray-300 transition-colors`}
+          aria-label={dir.toLowerCase()}
+        >
+          <Icon className="w-6 h-6" />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Merge, Pause, Play, StepForward } from 'lucide-react';
+
+interface DebugPanelProps {
+  paused: boolean;
+  onTogglePause: () => void;
+  onStep: () => void;
+  onForceMerge: () => void;
+}
+
+const BUTTON = 'flex items-center gap-1.5 px-3 h-8 rounded-full text-xs font-bold bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:hover:bg-gray-100';
+
+// Developer controls under the canvas while the debug overlay is on
+export default function DebugPanel({ paused, onTogglePause, onStep, onForceMerge }: DebugPanelProps) {
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+      <button onClick={onTogglePause} className={BUTTON}>
+        {paused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+        {paused ? 'Resume' : 'Pause'}
+      </button>
+      <button onClick={onStep} disabled={!paused} className={BUTTON}>
+        <StepForward className="w-3.5 h-3.5" />
+        Step one tick
+      </button>
+      <button onClick={onForceMerge} className={BUTTON}>
+        <Merge className="w-3.5 h-3.5" />
+        Force merge
+      </button>
+      <span>Click the maze to move Pac-Man there.</span>
+    </div>
+  );
+}
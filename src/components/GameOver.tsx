@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Download, Film, Pencil, RotateCcw } from 'lucide-react';
+import { RunSubmission } from '../api';
+import { ScoreBreakdown as Breakdown } from '../game/types';
+import Leaderboard from './Leaderboard';
+import ScoreBreakdown from './ScoreBreakdown';
+
+const PLAY_AGAIN_COLORS = {
+  won: 'bg-emerald-500 hover:bg-emerald-600',
+  lost: 'bg-gray-900 hover:bg-gray-800',
+};
+
+const SECONDARY_BUTTON = 'flex items-center gap-2 px-6 py-2 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors';
+
+interface GameOverProps {
+  outcome: 'won' | 'lost';
+  badge: React.ReactNode;
+  title: string;
+  message: string;
+  scoreSplit: string | null; // Each player's points, in two-player runs
+  breakdown: Breakdown;
+  unranked: string | null; // Why the run can't go on the leaderboard, if it can't
+  run: Omit<RunSubmission, 'name'>;
+  playAgainLabel: string;
+  onPlayAgain: () => void;
+  onWatchReplay: (() => void) | null; // Null when the run kept no replay
+  onExportReplay: (() => void) | null;
+  onOpenEditor: (() => void) | null; // Only for a level made in the editor
+}
+
+// End of a run, won or lost: the score, where it came from, the leaderboard and what to do next
+export default function GameOver({
+  outcome,
+  badge,
+  title,
+  message,
+  scoreSplit,
+  breakdown,
+  unranked,
+  run,
+  playAgainLabel,
+  onPlayAgain,
+  onWatchReplay,
+  onExportReplay,
+  onOpenEditor,
+}: GameOverProps) {
+  return (
+    <>
+      {badge}
+      <h2 className="text-3xl font-bold text-gray-800 mb-2">{title}</h2>
+      <p className="text-gray-500 mb-6">{message}</p>
+      {scoreSplit && <p className="text-sm font-bold text-gray-700 -mt-3 mb-6">{scoreSplit}</p>}
+      <ScoreBreakdown breakdown={breakdown} />
+      {unranked ? <p className="text-xs text-gray-400 mb-6">{unranked}</p> : <Leaderboard run={run} />}
+      <button
+        onClick={onPlayAgain}
+        className={`flex items-center gap-2 px-8 py-3 text-white rounded-full font-bold transition-colors shadow-lg ${PLAY_AGAIN_COLORS[outcome]}`}
+      >
+        <RotateCcw className="w-5 h-5" />
+        {playAgainLabel}
+      </button>
+      {(onWatchReplay || onExportReplay) && (
+        <div className="flex gap-2 mt-3">
+          {onWatchReplay && (
+            <button onClick={onWatchReplay} className={SECONDARY_BUTTON}>
+              <Film className="w-4 h-4" />
+              Watch Replay
+            </button>
+          )}
+          {onExportReplay && (
+            <button onClick={onExportReplay} className={SECONDARY_BUTTON}>
+              <Download className="w-4 h-4" />
+              Export Replay
+            </button>
+          )}
+        </div>
+      )}
+      {onOpenEditor && (
+        <button onClick={onOpenEditor} className={`${SECONDARY_BUTTON} mt-3`}>
+          <Pencil className="w-4 h-4" />
+          Back to Editor
+        </button>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { BadgeCheck, Send } from 'lucide-react';
+import { LeaderboardEntry, RunSubmission, fetchLeaderboard, submitRun } from '../api';
+
+const NAME_KEY = 'pacman.playerName';
+
+interface LeaderboardProps {
+  run: Omit<RunSubmission, 'name'>;
+}
+
+export default function Leaderboard({ run }: LeaderboardProps) {
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [name, setName] = useState(() => localStorage.getItem(NAME_KEY) ?? '');
+  const [submittedId, setSubmittedId] = useState<number | null>(null);
+  const [rank, setRank] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = () => {
+    fetchLeaderboard(run.mapId, run.mode, run.difficulty)
+      .then(setEntries)
+      .catch(() => setError('Leaderboard unavailable'));
+  };
+
+  useEffect(load, [run.mapId, run.mode, run.difficulty]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || busy) return;
+
+    setBusy(true);
+    setError(null);
+    localStorage.setItem(NAME_KEY, name.trim());
+    try {
+      const result = await submitRun({ ...run, name: name.trim() });
+      setSubmittedId(result.run.id);
+      setRank(result.rank);
+      load();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-xs mb-6 text-left">
+      {submittedId === null ? (
+        <form onSubmit={handleSubmit} className="flex gap-2 mb-3">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            maxLength={24}
+            placeholder="Your name"
+            className="flex-1 px-3 py-1.5 rounded-full border border-gray-200 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={busy || !name.trim()}
+            className="flex items-center gap-1.5 px-4 py-1.5 bg-gray-900 text-white rounded-full text-sm font-bold hover:bg-gray-800 transition-colors disabled:opacity-40"
+          >
+            <Send className="w-3.5 h-3.5" />
+            Submit
+          </button>
+        </form>
+      ) : (
+        <p className="text-sm text-emerald-600 font-medium mb-3">Saved! You placed #{rank}.</p>
+      )}
+
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {entries && entries.length > 0 && (
+        <ol className="text-sm space-y-0.5">
+          {entries.map((entry, i) => (
+            <li
+              key={entry.id}
+              className={`flex justify-between px-2 py-0.5 rounded ${entry.id === submittedId ? 'bg-emerald-100 font-bold' : ''}`}
+            >
+              <span className="flex items-center gap-1 text-gray-600">
+                {i + 1}. {entry.name}
+                {entry.verified === 1 && <BadgeCheck className="w-3.5 h-3.5 text-emerald-500" aria-label="Verified by replay" />}
+              </span>
+              <span className="font-mono text-gray-800">{entry.score}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {entries && entries.length === 0 && <p className="text-xs text-gray-400">No scores yet. Be the first!</p>}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, FlipHorizontal, Play, Upload, X } from 'lucide-react';
+import { useFittedCanvas } from '../canvasFit';
+import { TILE_SIZE, TileType } from '../constants';
+import { LevelDefinition, LevelValidationError, parseLevelFile, serializeLevel, validateLevel } from '../game/levels';
+import { drawMaze, resolvePalette } from '../render';
+import { Theme } from '../theme';
+
+const TOOLS: { tile: TileType; label: string }[] = [
+  { tile: TileType.WALL, label: 'Wall' },
+  { tile: TileType.PELLET, label: 'Pellet' },
+  { tile: TileType.POWER_PELLET, label: 'Power' },
+  { tile: TileType.EMPTY, label: 'Empty' },
+  { tile: TileType.PACMAN_START, label: 'Pacman' },
+  { tile: TileType.GHOST_START, label: 'Ghost' },
+  { tile: TileType.GHOST_DOOR, label: 'Door' },
+  { tile: TileType.TUNNEL, label: 'Tunnel' },
+];
+
+const MIN_SIZE = 5;
+const MAX_SIZE = 40;
+
+// Keep existing tiles, fill new space with walls
+function resizeGrid(grid: number[][], width: number, height: number): number[][] {
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => grid[y]?.[x] ?? TileType.WALL),
+  );
+}
+
+interface MazeEditorProps {
+  initialLevel: LevelDefinition;
+  theme: Theme;
+  onPlay: (level: LevelDefinition) => void;
+  onClose: () => void;
+}
+
+export default function MazeEditor({ initialLevel, theme, onPlay, onClose }: MazeEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const painting = useRef<TileType | null>(null);
+  const [grid, setGrid] = useState(() => initialLevel.grid.map(row => [...row]));
+  const [name, setName] = useState(initialLevel.name);
+  const [id, setId] = useState(initialLevel.id);
+  const [tool, setTool] = useState<TileType>(TileType.WALL);
+  const [mirror, setMirror] = useState(true);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const level: LevelDefinition = { ...initialLevel, id, name, grid };
+  const problems = useMemo(() => validateLevel(level), [grid, id, name]);
+  const width = grid[0]?.length ?? 0;
+  const height = grid.length;
+
+  const drawBoard = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    drawMaze(ctx, grid, resolvePalette(level, theme), { tick: 0, theme, showMarkers: true });
+
+    // Faint grid lines to paint against
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.06)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = 1; x < width; x++) {
+      ctx.moveTo(x * TILE_SIZE + 0.5, 0);
+      ctx.lineTo(x * TILE_SIZE + 0.5, height * TILE_SIZE);
+    }
+    for (let y = 1; y < height; y++) {
+      ctx.moveTo(0, y * TILE_SIZE + 0.5);
+      ctx.lineTo(width * TILE_SIZE, y * TILE_SIZE + 0.5);
+    }
+    ctx.stroke();
+  };
+
+  // Shown at full size, in a scrolling frame, so tiles stay big enough to paint
+  useFittedCanvas(canvasRef, width * TILE_SIZE, height * TILE_SIZE, undefined, drawBoard);
+  useEffect(drawBoard, [grid, theme]);
+
+  const paint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const tile = painting.current;
+    const canvas = canvasRef.current;
+    if (tile === null || !canvas) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * width);
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * height);
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+
+    setGrid(current => {
+      const mirrorX = width - 1 - x;
+      const unchanged = current[y][x] === tile && (!mirror || current[y][mirrorX] === tile);
+      if (unchanged) return current;
+
+      const next = current.map(row => [...row]);
+      // Only one Pacman start: painting a new one clears the old
+      if (tile === TileType.PACMAN_START) {
+        next.forEach(row => row.forEach((t, i) => {
+          if (t === TileType.PACMAN_START) row[i] = TileType.EMPTY;
+        }));
+      }
+      next[y][x] = tile;
+      if (mirror && tile !== TileType.PACMAN_START) next[y][mirrorX] = tile;
+      return next;
+    });
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Right button erases
+    painting.current = e.button === 2 ? TileType.EMPTY : tool;
+    paint(e);
+  };
+
+  const handleResize = (newWidth: number, newHeight: number) => {
+    const clamp = (n: number) => Math.max(MIN_SIZE, Math.min(MAX_SIZE, Math.round(n) || MIN_SIZE));
+    setGrid(current => resizeGrid(current, clamp(newWidth), clamp(newHeight)));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeLevel(level)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${id || 'level'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      // Load even if invalid, so problems can be fixed here
+      const imported = parseLevelFile(await file.text(), { validate: false });
+      setGrid(imported.grid.map(row => [...row]));
+      setName(imported.name ?? '');
+      setId(imported.id ?? '');
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof LevelValidationError ? err.problems.join(' ') : String(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(t => (
+          <button
+            key={t.tile}
+            onClick={() => setTool(t.tile)}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${
+              tool === t.tile ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+        <button
+          onClick={() => setMirror(m => !m)}
+          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${
+            mirror ? 'bg-emerald-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+          }`}
+        >
+          <FlipHorizontal className="w-3.5 h-3.5" />
+          Mirror
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 font-medium">
+        <label className="flex items-center gap-1.5">
+          Name
+          <input value={name} onChange={e => setName(e.target.value)} className="px-2 py-1 rounded border border-gray-200 w-32" />
+        </label>
+        <label className="flex items-center gap-1.5">
+          Id
+          <input value={id} onChange={e => setId(e.target.value)} className="px-2 py-1 rounded border border-gray-200 w-24" />
+        </label>
+        <label className="flex items-center gap-1.5">
+          Width
+          <input
+            type="number"
+            min={MIN_SIZE}
+            max={MAX_SIZE}
+            value={width}
+            onChange={e => handleResize(Number(e.target.value), height)}
+            className="px-2 py-1 rounded border border-gray-200 w-16"
+          />
+        </label>
+        <label className="flex items-center gap-1.5">
+          Height
+          <input
+            type="number"
+            min={MIN_SIZE}
+            max={MAX_SIZE}
+            value={height}
+            onChange={e => handleResize(width, Number(e.target.value))}
+            className="px-2 py-1 rounded border border-gray-200 w-16"
+          />
+        </label>
+      </div>
+
+      <div className="rounded-2xl overflow-auto bg-gray-50 border border-gray-100 max-w-[80vw] max-h-[70vh]">
+        <canvas
+          ref={canvasRef}
+          className="block cursor-crosshair"
+          onMouseDown={handleMouseDown}
+          onMouseMove={paint}
+          onMouseUp={() => (painting.current = null)}
+          onMouseLeave={() => (painting.current = null)}
+          onContextMenu={e => e.preventDefault()}
+        />
+      </div>
+
+      <div className="min-h-12 text-xs">
+        {importError && <p className="text-red-600 mb-1">Import failed: {importError}</p>}
+        {problems.length === 0 ? (
+          <p className="text-emerald-600 font-medium">Level is valid.</p>
+        ) : (
+          <ul className="text-red-600 list-disc pl-4 space-y-0.5">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => onPlay(level)}
+          disabled={problems.length > 0}
+          className="flex items-center gap-2 px-6 py-2.5 bg-emerald-500 text-white rounded-full font-bold hover:bg-emerald-600 transition-colors shadow-lg disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Play className="w-4 h-4" />
+          Test Play
+        </button>
+        <button
+          onClick={handleExport}
+          className="flex items-center gap-2 px-6 py-2.5 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-6 py-2.5 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          Import
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-6 py-2.5 bg-gray-900 text-white rounded-full font-bold hover:bg-gray-800 transition-colors shadow-lg ml-auto"
+        >
+          <X className="w-4 h-4" />
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
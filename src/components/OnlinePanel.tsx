@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { LogIn, Plus, X } from 'lucide-react';
+import { ROOM_MODES, ROOM_SIZE, RoomMode } from '../game/netProtocol';
+import { OnlineClient } from '../net';
+
+const NAME_KEY = 'pacman.playerName';
+
+const ROOM_MODE_INFO: Record<RoomMode, { label: string; description: string }> = {
+  race: { label: 'Race', description: 'Each of you gets the same board. First to clear it wins; losing your last life loses.' },
+  shared: { label: 'Shared Board', description: 'Both Pac-Men on one board, sharing the lives. The higher scorer wins.' },
+};
+
+interface OnlinePanelProps {
+  client: OnlineClient | null; // Connected, or trying to; null until a room is created or joined
+  onCreate: (name: string, mode: RoomMode) => void;
+  onJoin: (name: string, room: string) => void;
+  onClose: () => void;
+}
+
+// Create or join a room, then wait in its lobby; the match starts by itself once the room is full
+export default function OnlinePanel({ client, onCreate, onJoin, onClose }: OnlinePanelProps) {
+  const [name, setName] = useState(() => localStorage.getItem(NAME_KEY) ?? '');
+  const [mode, setMode] = useState<RoomMode>('race');
+  const [room, setRoom] = useState('');
+
+  const rememberName = () => localStorage.setItem(NAME_KEY, name.trim());
+  const inLobby = client?.status === 'lobby';
+
+  return (
+    <div className="w-full max-w-xs text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 text-center">Play Online</h2>
+
+      {inLobby ? (
+        <div className="mb-6 text-center">
+          <p className="text-sm text-gray-500 mb-1">Room code</p>
+          <p className="text-4xl font-mono font-bold tracking-widest text-gray-900 mb-4">{client.room}</p>
+          <p className="text-xs text-gray-400 mb-3">{ROOM_MODE_INFO[client.mode].description}</p>
+          <ul className="text-sm text-gray-700 mb-3">
+            {client.players.map((player, i) => (
+              <li key={i} className="font-bold">{player}{i === client.player ? ' (you)' : ''}</li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-400">
+            Waiting for {ROOM_SIZE - client.players.length} more player(s). Share the code, or run <code>npm run client -- --join {client.room}</code>.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3 text-sm text-gray-600 font-medium mb-6">
+          <label className="flex items-center gap-2">
+            <span className="w-16">Name</span>
+            <input value={name} maxLength={20} onChange={e => setName(e.target.value)} className="flex-1 px-2 py-1 rounded border border-gray-200" />
+          </label>
+          <div className="flex items-center gap-2">
+            <span className="w-16">Mode</span>
+            {ROOM_MODES.map(id => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                className={`px-3 h-8 rounded-full text-xs font-bold transition-colors ${
+                  id === mode ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {ROOM_MODE_INFO[id].label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">{ROOM_MODE_INFO[mode].description}</p>
+          <button
+            onClick={() => {
+              rememberName();
+              onCreate(name, mode);
+            }}
+            className="w-full flex items-center justify-center gap-2 px-5 py-2 bg-gray-900 text-white rounded-full font-bold hover:bg-gray-800 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Create Room
+          </button>
+          <div className="flex items-center gap-2">
+            <input
+              value={room}
+              placeholder="Room code"
+              maxLength={4}
+              onChange={e => setRoom(e.target.value.toUpperCase())}
+              className="flex-1 px-2 py-1 rounded border border-gray-200 font-mono uppercase"
+            />
+            <button
+              onClick={() => {
+                rememberName();
+                onJoin(name, room);
+              }}
+              disabled={room.trim().length === 0}
+              className="flex items-center gap-2 px-4 py-1.5 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <LogIn className="w-4 h-4" />
+              Join
+            </button>
+          </div>
+        </div>
+      )}
+
+      {client?.error && <p className="text-xs text-red-600 mb-3">{client.error}</p>}
+      {client?.status === 'connecting' && !client.error && <p className="text-xs text-gray-400 mb-3">Connecting…</p>}
+
+      <div className="flex justify-center">
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          {inLobby ? 'Leave' : 'Close'}
+        </button>
+      </div>
+    </div>
+  );
+}
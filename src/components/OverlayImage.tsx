@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+
+interface OverlayImageProps {
+  src?: string;
+  alt: string;
+  className: string;
+  fallback: React.ReactNode; // Shown when the theme has no image or it fails to load
+}
+
+export default function OverlayImage({ src, alt, className, fallback }: OverlayImageProps) {
+  const [failed, setFailed] = useState(false);
+  useEffect(() => setFailed(false), [src]);
+
+  if (!src || failed) return <>{fallback}</>;
+  return (
+    <div className={className}>
+      <img src={src} alt={alt} referrerPolicy="no-referrer" className="w-full h-full object-cover" onError={() => setFailed(true)} />
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Dices, Play, X } from 'lucide-react';
+import { useFittedCanvas } from '../canvasFit';
+import { TILE_SIZE } from '../constants';
+import { MAX_MAZE_SIZE, MIN_MAZE_SIZE, generateMaze } from '../game/mazeGenerator';
+import { LevelDefinition } from '../game/levels';
+import { drawMaze, resolvePalette } from '../render';
+import { Theme } from '../theme';
+
+const PREVIEW_SCALE = 0.25;
+
+function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 8);
+}
+
+interface RandomMazePanelProps {
+  theme: Theme;
+  onPlay: (level: LevelDefinition) => void;
+  onClose: () => void;
+}
+
+// Seeded maze generation: the same seed and settings always give the same board
+export default function RandomMazePanel({ theme, onPlay, onClose }: RandomMazePanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [seed, setSeed] = useState(randomSeed);
+  const [width, setWidth] = useState(19);
+  const [height, setHeight] = useState(21);
+  const [tunnels, setTunnels] = useState(true);
+  const [density, setDensity] = useState(1);
+
+  // Some settings give a maze that fails validation; say so in the panel rather than throw while rendering
+  const { level, error } = useMemo(() => {
+    try {
+      return { level: generateMaze({ seed, width, height, tunnels, pelletDensity: density }), error: null };
+    } catch (e) {
+      return { level: null, error: (e as Error).message };
+    }
+  }, [seed, width, height, tunnels, density]);
+  const grid = level?.grid;
+
+  const drawPreview = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx && level) drawMaze(ctx, level.grid, resolvePalette(level, theme), { tick: 0, theme });
+  };
+
+  const boardWidth = (grid?.[0].length ?? width) * TILE_SIZE;
+  const boardHeight = (grid?.length ?? height) * TILE_SIZE;
+  useFittedCanvas(
+    canvasRef,
+    boardWidth,
+    boardHeight,
+    () => ({ width: boardWidth * PREVIEW_SCALE, height: boardHeight * PREVIEW_SCALE }),
+    drawPreview,
+  );
+  useEffect(drawPreview, [grid, theme]);
+
+  return (
+    <div className="w-full max-w-xs text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 text-center">Random Maze</h2>
+
+      <div className="flex justify-center mb-4">
+        {error ? (
+          <p className="text-xs text-red-600">Could not make a maze with these settings: {error}</p>
+        ) : (
+          <canvas
+            ref={canvasRef}
+            className="rounded-lg border border-gray-100"
+          />
+        )}
+      </div>
+
+      <div className="space-y-2 text-sm text-gray-600 font-medium mb-6">
+        <label className="flex items-center gap-2">
+          <span className="w-16">Seed</span>
+          <input value={seed} onChange={e => setSeed(e.target.value)} className="flex-1 px-2 py-1 rounded border border-gray-200 font-mono" />
+          <button onClick={() => setSeed(randomSeed())} className="p-1.5 rounded-full hover:bg-gray-100" aria-label="New seed">
+            <Dices className="w-4 h-4" />
+          </button>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-16">Size</span>
+          <input
+            type="number"
+            min={MIN_MAZE_SIZE}
+            max={MAX_MAZE_SIZE}
+            value={width}
+            onChange={e => setWidth(Number(e.target.value))}
+            className="w-16 px-2 py-1 rounded border border-gray-200"
+          />
+          ×
+          <input
+            type="number"
+            min={MIN_MAZE_SIZE}
+            max={MAX_MAZE_SIZE}
+            value={height}
+            onChange={e => setHeight(Number(e.target.value))}
+            className="w-16 px-2 py-1 rounded border border-gray-200"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-16">Pellets</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={density}
+            onChange={e => setDensity(Number(e.target.value))}
+            className="flex-1 accent-emerald-500"
+          />
+          <span className="w-10 text-right font-mono text-xs">{Math.round(density * 100)}%</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={tunnels} onChange={e => setTunnels(e.target.checked)} />
+          Side tunnels
+        </label>
+      </div>
+
+      <div className="flex gap-2 justify-center">
+        <button
+          onClick={() => level && onPlay(level)}
+          disabled={!level}
+          className="flex items-center gap-2 px-5 py-2 bg-emerald-500 text-white rounded-full font-bold hover:bg-emerald-600 transition-colors shadow-lg disabled:opacity-40 disabled:hover:bg-emerald-500"
+        >
+          <Play className="w-4 h-4" />
+          Play
+        </button>
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Download, Pause, Play, X } from 'lucide-react';
+import { TICKS_PER_SECOND } from '../constants';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export function formatTime(ticks: number): string {
+  const seconds = Math.floor(ticks / TICKS_PER_SECOND);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+interface ReplayControlsProps {
+  playing: boolean;
+  position: number;
+  total: number;
+  speed: number;
+  onTogglePlay: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExport: () => void;
+  onExit: () => void;
+}
+
+export default function ReplayControls({
+  playing,
+  position,
+  total,
+  speed,
+  onTogglePlay,
+  onSeek,
+  onSpeedChange,
+  onExport,
+  onExit,
+}: ReplayControlsProps) {
+  return (
+    <div className="mt-6 flex items-center gap-3 text-gray-500 text-sm font-medium">
+      <button
+        onClick={onTogglePlay}
+        className="flex items-center justify-center w-9 h-9 bg-gray-900 text-white rounded-full hover:bg-gray-800 transition-colors"
+        aria-label={playing ? 'Pause' : 'Play'}
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+      <span className="font-mono text-xs w-20">{formatTime(position)} / {formatTime(total)}</span>
+      <input
+        type="range"
+        min={0}
+        max={total}
+        value={position}
+        onChange={e => onSeek(Number(e.target.value))}
+        className="flex-1 accent-emerald-500"
+      />
+      <div className="flex gap-1">
+        {SPEEDS.map(s => (
+          <button
+            key={s}
+            onClick={() => onSpeedChange(s)}
+            className={`px-2 py-1 rounded text-xs font-bold ${s === speed ? 'bg-gray-900 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+          >
+            {s}x
+          </button>
+        ))}
+      </div>
+      <button onClick={onExport} className="p-2 rounded-full hover:bg-gray-100" aria-label="Export replay">
+        <Download className="w-4 h-4" />
+      </button>
+      <button onClick={onExit} className="p-2 rounded-full hover:bg-gray-100" aria-label="Exit replay">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
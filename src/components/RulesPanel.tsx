@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { GameRules, RULE_LIMITS, RULE_PRESETS, validateRules } from '../game/rules';
+
+// Nullable rules get an "Off" checkbox; `off` says what turning them off means
+const FIELDS: { key: keyof GameRules; label: string; unit: string; off?: string }[] = [
+  { key: 'winScore', label: 'Win at', unit: 'pts', off: 'Eat every pellet' },
+  { key: 'mergeScore', label: 'Ghosts merge at', unit: 'pts', off: 'Never' },
+  { key: 'pelletRespawnSeconds', label: 'Pellets respawn every', unit: 's', off: 'Never' },
+  { key: 'frightenedSeconds', label: 'Frightened for', unit: 's' },
+  { key: 'ghostSpeed', label: 'Ghost speed', unit: 'px/tick' },
+  { key: 'ultimateGhostSpeed', label: 'Ultimate Ghost speed', unit: 'px/tick' },
+  { key: 'ghostCatchRadius', label: 'Ghost reach', unit: 'tiles' },
+  { key: 'ultimateGhostCatchRadius', label: 'Ultimate Ghost reach', unit: 'tiles' },
+  { key: 'extraLifePoints', label: 'Extra life every', unit: 'pts', off: 'Never' },
+  { key: 'fruitSeconds', label: 'Bonus fruit stays', unit: 's', off: 'No fruit' },
+];
+
+interface RulesPanelProps {
+  rules: GameRules;
+  onSave: (rules: GameRules) => void;
+  onClose: () => void;
+}
+
+// Edits the Custom difficulty; the built-in presets can be copied in as a starting point
+export default function RulesPanel({ rules, onSave, onClose }: RulesPanelProps) {
+  const [draft, setDraft] = useState<GameRules>(rules);
+  const problems = validateRules(draft);
+
+  const change = (key: keyof GameRules, value: number | null) => setDraft(current => ({ ...current, [key]: value }));
+
+  return (
+    <div className="w-full max-w-sm text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-3 text-center">Custom Rules</h2>
+
+      <div className="flex items-center justify-center gap-2 mb-4 text-xs text-gray-500 font-medium">
+        Start from
+        {(Object.keys(RULE_PRESETS) as (keyof typeof RULE_PRESETS)[]).map(preset => (
+          <button
+            key={preset}
+            onClick={() => setDraft({ ...RULE_PRESETS[preset] })}
+            className="px-3 py-1 rounded-full bg-gray-100 text-gray-600 font-bold capitalize hover:bg-gray-200 transition-colors"
+          >
+            {preset}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1.5 text-sm text-gray-600 font-medium mb-4">
+        {FIELDS.map(({ key, label, unit, off }) => {
+          const value = draft[key];
+          const { min, max, step } = RULE_LIMITS[key];
+          return (
+            <label key={key} className="flex items-center gap-2">
+              <span className="flex-1">{label}</span>
+              {value === null ? (
+                <span className="w-20 text-right text-xs text-gray-400">{off}</span>
+              ) : (
+                <input
+                  type="number"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={value}
+                  onChange={e => change(key, Number(e.target.value))}
+                  className="w-20 px-2 py-0.5 rounded border border-gray-200 text-right font-mono"
+                />
+              )}
+              <span className="w-12 text-xs text-gray-400">{unit}</span>
+              {off !== undefined && (
+                <input
+                  type="checkbox"
+                  checked={value === null}
+                  onChange={e => change(key, e.target.checked ? null : RULE_PRESETS.normal[key] ?? min)}
+                  title="Off"
+                />
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      {problems.length > 0 && <p className="text-xs text-red-600 mb-3">{problems[0]}</p>}
+
+      <div className="flex gap-2 justify-center">
+        <button
+          onClick={() => onSave(draft)}
+          disabled={problems.length > 0}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-900 text-white rounded-full font-bold hover:bg-gray-800 transition-colors shadow-lg disabled:opacity-40"
+        >
+          <Check className="w-4 h-4" />
+          Save
+        </button>
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { ScoreBreakdown as Breakdown } from '../game/types';
+
+interface ScoreBreakdownProps {
+  breakdown: Breakdown;
+}
+
+const ROWS: { key: keyof Breakdown; label: string }[] = [
+  { key: 'pellets', label: 'Pellets' },
+  { key: 'fruit', label: 'Fruit' },
+  { key: 'ghosts', label: 'Ghosts' },
+  { key: 'time', label: 'Time bonus' },
+];
+
+// Where the run's points came from, over every board played
+export default function ScoreBreakdown({ breakdown }: ScoreBreakdownProps) {
+  return (
+    <dl className="w-56 grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-6">
+      {ROWS.map(({ key, label }) => (
+        <React.Fragment key={key}>
+          <dt className="text-left text-gray-500">{label}</dt>
+          <dd className="text-right font-mono font-bold text-gray-700">{breakdown[key]}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+}
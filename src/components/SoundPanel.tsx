@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Volume2, VolumeX, X } from 'lucide-react';
+import { AudioSettings } from '../audio';
+
+const SLIDERS: { key: 'master' | 'music' | 'effects'; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'music', label: 'Music' },
+  { key: 'effects', label: 'Effects' },
+];
+
+interface SoundPanelProps {
+  settings: AudioSettings;
+  onChange: (changes: Partial<AudioSettings>) => void;
+  onClose: () => void;
+}
+
+export default function SoundPanel({ settings, onChange, onClose }: SoundPanelProps) {
+  return (
+    <div className="w-full max-w-xs text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 text-center">Sound</h2>
+      {SLIDERS.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-3 text-sm text-gray-600 font-medium mb-3">
+          <span className="w-16">{label}</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings[key]}
+            disabled={settings.muted}
+            onChange={e => onChange({ [key]: Number(e.target.value) })}
+            className="flex-1 accent-emerald-500 disabled:opacity-40"
+          />
+          <span className="w-10 text-right font-mono text-xs">{Math.round(settings[key] * 100)}%</span>
+        </label>
+      ))}
+
+      <div className="flex gap-2 justify-center mt-6">
+        <button
+          onClick={() => onChange({ muted: !settings.muted })}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+        >
+          {settings.muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+          {settings.muted ? 'Unmute' : 'Mute'}
+        </button>
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-900 text-white rounded-full font-bold hover:bg-gray-800 transition-colors shadow-lg"
+        >
+          <X className="w-4 h-4" />
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { Check, Upload, X } from 'lucide-react';
+import { ThemeFormatError, ThemeManifest, parseThemeManifest } from '../theme';
+
+interface ThemePanelProps {
+  themes: ThemeManifest[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onImport: (manifest: ThemeManifest) => void;
+  onClose: () => void;
+}
+
+export default function ThemePanel({ themes, selectedId, onSelect, onImport, onClose }: ThemePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onImport(parseThemeManifest(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof ThemeFormatError ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="w-full max-w-xs text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 text-center">Theme</h2>
+
+      <div className="space-y-2 mb-4">
+        {themes.map(({ id, name, palette }) => (
+          <button
+            key={id}
+            onClick={() => onSelect(id)}
+            className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl border transition-colors ${
+              id === selectedId ? 'border-gray-900' : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {/* Swatch: the maze background with a wall, Pac-Man and the ghosts */}
+            <span className="flex items-center gap-1 px-2 py-1 rounded-md" style={{ background: palette.background }}>
+              <span className="w-3 h-3 rounded-sm" style={{ background: palette.wall }} />
+              <span className="w-3 h-3 rounded-full" style={{ background: palette.pacman }} />
+              {palette.ghosts.map((color, i) => (
+                <span key={i} className="w-3 h-3 rounded-t-full" style={{ background: color }} />
+              ))}
+            </span>
+            <span className="flex-1 text-sm font-bold text-gray-700">{name}</span>
+            {id === selectedId && <Check className="w-4 h-4 text-emerald-500" />}
+          </button>
+        ))}
+      </div>
+
+      {importError && <p className="text-xs text-red-600 mb-3">Could not load theme: {importError}</p>}
+
+      <div className="flex gap-2 justify-center">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-100 text-gray-700 rounded-full font-bold hover:bg-gray-200 transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          Load Pack
+        </button>
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-900 text-white rounded-full font-bold hover:bg-gray-800 transition-colors shadow-lg"
+        >
+          <X className="w-4 h-4" />
+          Done
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+}
@@ -5,43 +5,41 @@
 
 export const TILE_SIZE = 32;
 
+// The simulation advances in fixed ticks of 1/60 s
+export const TICKS_PER_SECOND = 60;
+
 export enum TileType {
   EMPTY = 0,
   WALL = 1,
   PELLET = 2,
   PACMAN_START = 3,
   GHOST_START = 4,
+  TUNNEL = 5, // Passable; entities on a border tunnel wrap to the opposite edge
+  POWER_PELLET = 6,
+  GHOST_DOOR = 7, // Ghost house door: ghosts only, out when let go and back in when eaten
 }
 
 // 19x21 Map
 export const MAP = [
   [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
   [1, 2, 2, 2, 2, 2, 2, 2, 2, 1, 2, 2, 2, 2, 2, 2, 2, 2, 1],
-  [1, 2, 1, 1, 2, 1, 1, 1, 2, 1, 2, 1, 1, 1, 2, 1, 1, 2, 1],
+  [1, 6, 1, 1, 2, 1, 1, 1, 2, 1, 2, 1, 1, 1, 2, 1, 1, 6, 1],
   [1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 1],
   [1, 2, 1, 1, 2, 1, 2, 1, 1, 1, 1, 1, 2, 1, 2, 1, 1, 2, 1],
   [1, 2, 2, 2, 2, 1, 2, 2, 2, 1, 2, 2, 2, 1, 2, 2, 2, 2, 1],
   [1, 1, 1, 1, 2, 1, 1, 1, 0, 1, 0, 1, 1, 1, 2, 1, 1, 1, 1],
   [0, 0, 0, 1, 2, 1, 0, 0, 0, 0, 0, 0, 0, 1, 2, 1, 0, 0, 0],
-  [1, 1, 1, 1, 2, 1, 0, 0, 0, 0, 0, 0, 0, 1, 2, 1, 1, 1, 1],
-  [0, 0, 0, 0, 2, 0, 0, 0, 4, 4, 4, 0, 0, 0, 2, 0, 0, 0, 0],
-  [1, 1, 1, 1, 2, 1, 0, 0, 0, 0, 0, 0, 0, 1, 2, 1, 1, 1, 1],
+  [1, 1, 1, 1, 2, 1, 0, 1, 1, 7, 1, 1, 0, 1, 2, 1, 1, 1, 1],
+  [5, 5, 5, 5, 2, 0, 0, 1, 4, 4, 4, 1, 0, 0, 2, 5, 5, 5, 5],
+  [1, 1, 1, 1, 2, 1, 0, 1, 1, 1, 1, 1, 0, 1, 2, 1, 1, 1, 1],
   [0, 0, 0, 1, 2, 1, 0, 0, 0, 0, 0, 0, 0, 1, 2, 1, 0, 0, 0],
   [1, 1, 1, 1, 2, 1, 0, 1, 1, 1, 1, 1, 0, 1, 2, 1, 1, 1, 1],
   [1, 2, 2, 2, 2, 2, 2, 2, 2, 1, 2, 2, 2, 2, 2, 2, 2, 2, 1],
   [1, 2, 1, 1, 2, 1, 1, 1, 2, 1, 2, 1, 1, 1, 2, 1, 1, 2, 1],
   [1, 2, 2, 1, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 1, 2, 2, 1],
   [1, 1, 2, 1, 2, 1, 2, 1, 1, 1, 1, 1, 2, 1, 2, 1, 2, 1, 1],
-  [1, 2, 2, 2, 2, 1, 2, 2, 2, 1, 2, 2, 2, 1, 2, 2, 2, 2, 1],
+  [1, 6, 2, 2, 2, 1, 2, 2, 2, 1, 2, 2, 2, 1, 2, 2, 2, 6, 1],
   [1, 2, 1, 1, 1, 1, 1, 1, 2, 1, 2, 1, 1, 1, 1, 1, 1, 2, 1],
   [1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 1],
   [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
 ];
-
-export const COLORS = {
-  WALL: "#0984E3", // Vibrant blue
-  PELLET: "#FFD93D", // Soft yellow
-  PACMAN: "#FFD93D",
-  GHOSTS: ["#FF7675", "#74B9FF", "#55E6C1", "#FAB1A0"], // Soft red, blue, green, orange
-  BG: "#F8F9FA",
-};
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { TICKS_PER_SECOND } from './constants';
+import { drawDebugOverlay } from './debugOverlay';
+import { LEVELS } from './game/levelPack';
+import { Random } from './game/rng';
+import { GameSimulation } from './game/simulation';
+import { Direction } from './game/types';
+import { Theme } from './theme';
+
+// Takes every drawing call and draws nothing
+const canvas = new Proxy({} as CanvasRenderingContext2D, {
+  get: (_, name) => name === 'measureText' ? () => ({ width: 0 }) : () => {},
+  set: () => true,
+});
+
+const theme = { ghostColor: () => '#fff', palette: { ultimateGhost: '#fff' } } as unknown as Theme;
+
+describe('drawDebugOverlay', () => {
+  it('does not change how the game plays out', () => {
+    const play = (drawOverlay: boolean) => {
+      const sim = new GameSimulation({ level: LEVELS[0], seed: 13 });
+      const inputs = new Random(13);
+      const directions: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+      for (let tick = 0; tick < 90 * TICKS_PER_SECOND && sim.getState().status === 'PLAYING'; tick++) {
+        sim.step({ direction: inputs.int(20) === 0 ? inputs.pick(directions) : null });
+        if (drawOverlay) drawDebugOverlay(canvas, sim.getState(), { theme, fps: 60 });
+      }
+      return sim.snapshot();
+    };
+
+    expect(play(true)).toEqual(play(false));
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TILE_SIZE } from './constants';
+import { Entity, Ghost } from './game/entities';
+import { MazeGraph } from './game/mazeGraph';
+import { SimulationState } from './game/simulation';
+import { Position } from './game/types';
+import { Theme } from './theme';
+
+// Developer overlay drawn over a frame: the grid, what every actor is doing and where the ghosts are headed
+
+const GRID_COLOR = 'rgba(128, 128, 128, 0.35)';
+const LABEL_COLOR = '#00B8D9';
+const CATCH_COLOR = 'rgba(255, 64, 64, 0.8)';
+
+// The overlay's own copy of each board's ghost graph. Its distance fields are cached as they are asked for, and
+// the simulation's must only ever be filled by the simulation, or drawing could change how a replay plays out
+const graphs = new WeakMap<MazeGraph, MazeGraph>();
+
+function overlayGraph(state: SimulationState): MazeGraph {
+  let graph = graphs.get(state.graph);
+  if (!graph) {
+    graph = new MazeGraph(state.level.grid, { ghostDoors: true });
+    graphs.set(state.graph, graph);
+  }
+  return graph;
+}
+
+export interface DebugOverlayOptions {
+  theme: Theme;
+  fps: number;
+}
+
+export function drawDebugOverlay(ctx: CanvasRenderingContext2D, state: SimulationState, options: DebugOverlayOptions) {
+  const { theme } = options;
+  ctx.save();
+  drawGrid(ctx, state.map);
+
+  state.ghosts.forEach((ghost, i) => {
+    if (ghost.merged) return;
+    drawGoal(ctx, state, ghost, theme.ghostColor(i));
+    drawCatchRadius(ctx, ghost, state.rules.ghostCatchRadius);
+    drawActorLabel(ctx, ghost, `${ghost.mode}${ghost.isMerging ? ' MERGING' : ''} ${ghost.houseState}`);
+  });
+  const ug = state.ultimateGhost;
+  if (ug) {
+    drawGoal(ctx, state, ug, theme.palette.ultimateGhost);
+    drawCatchRadius(ctx, ug, state.rules.ultimateGhostCatchRadius);
+    drawActorLabel(ctx, ug, ug.stunnedTicks > 0 ? `STUNNED ${ug.stunnedTicks}` : ug.houseState);
+  }
+  state.pacmen.forEach((pacman, player) => drawActorLabel(ctx, pacman, `P${player + 1}`));
+
+  drawStats(ctx, state, options);
+  ctx.restore();
+}
+
+// Lines between tiles, and each tile's x,y in its corner
+function drawGrid(ctx: CanvasRenderingContext2D, map: readonly (readonly number[])[]) {
+  const width = map[0].length * TILE_SIZE;
+  const height = map.length * TILE_SIZE;
+  ctx.strokeStyle = GRID_COLOR;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = 0; x <= map[0].length; x++) {
+    ctx.moveTo(x * TILE_SIZE + 0.5, 0);
+    ctx.lineTo(x * TILE_SIZE + 0.5, height);
+  }
+  for (let y = 0; y <= map.length; y++) {
+    ctx.moveTo(0, y * TILE_SIZE + 0.5);
+    ctx.lineTo(width, y * TILE_SIZE + 0.5);
+  }
+  ctx.stroke();
+
+  ctx.fillStyle = GRID_COLOR;
+  ctx.font = '7px ui-monospace, monospace';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  for (let y = 0; y < map.length; y++) {
+    for (let x = 0; x < map[y].length; x++) ctx.fillText(`${x},${y}`, x * TILE_SIZE + 2, y * TILE_SIZE + 2);
+  }
+}
+
+// The tile a ghost is making for, as the simulation would pick it this tick
+function goalOf(state: SimulationState, graph: MazeGraph, ghost: Readonly<Ghost>): Position | null {
+  const here = { x: ghost.gridX, y: ghost.gridY };
+  if (ghost.isMerging) return state.mergePoint;
+  if (ghost.mode === 'EATEN') return { x: ghost.homeX, y: ghost.homeY };
+  if (ghost.houseState === 'WAITING') return null;
+  if (ghost.houseState === 'LEAVING' && state.house) return state.house.nearestExit(graph, here);
+  // Frightened ghosts wander, and a player's ghost goes wherever it is steered
+  if (ghost.mode === 'FRIGHTENED' || (ghost.controlled && ghost.houseState === 'OUT') || !ghost.target) return null;
+  // Chase targets can lie past the edge of the maze; show the nearest tile on it
+  return {
+    x: Math.max(0, Math.min(graph.width - 1, ghost.target.x)),
+    y: Math.max(0, Math.min(graph.height - 1, ghost.target.y)),
+  };
+}
+
+// Target tile, outlined, and the shortest path there through the ghosts' maze
+function drawGoal(ctx: CanvasRenderingContext2D, state: SimulationState, ghost: Readonly<Ghost>, color: string) {
+  const graph = overlayGraph(state);
+  const goal = goalOf(state, graph, ghost);
+  if (!goal) return;
+  const center = (tile: number) => tile * TILE_SIZE + TILE_SIZE / 2;
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([4, 3]);
+  ctx.beginPath();
+  ctx.moveTo(ghost.x, ghost.y);
+  let previous: Position = { x: ghost.gridX, y: ghost.gridY };
+  for (const step of graph.path(previous, goal)) {
+    // Through a tunnel the path jumps to the far edge; don't draw a line across the whole maze
+    if (Math.abs(step.x - previous.x) + Math.abs(step.y - previous.y) > 1) ctx.moveTo(center(step.x), center(step.y));
+    else ctx.lineTo(center(step.x), center(step.y));
+    previous = step;
+  }
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.strokeRect(goal.x * TILE_SIZE + 2, goal.y * TILE_SIZE + 2, TILE_SIZE - 4, TILE_SIZE - 4);
+}
+
+// Pac-Man is caught once his centre is inside this circle
+function drawCatchRadius(ctx: CanvasRenderingContext2D, ghost: Readonly<Ghost>, radius: number) {
+  ctx.strokeStyle = CATCH_COLOR;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(ghost.x, ghost.y, radius * TILE_SIZE, 0, Math.PI * 2);
+  ctx.stroke();
+}
+
+// Tile, direction and buffered turn above the actor, plus a line of extra state
+function drawActorLabel(ctx: CanvasRenderingContext2D, actor: Readonly<Entity>, detail: string) {
+  const turn = actor.nextDirection ? `→${actor.nextDirection}` : '';
+  const lines = [`${actor.gridX},${actor.gridY} ${actor.direction ?? 'STOP'}${turn}`, detail];
+  ctx.font = 'bold 9px ui-monospace, monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  lines.forEach((line, i) => {
+    const y = actor.y - TILE_SIZE / 2 - (lines.length - 1 - i) * 10;
+    const width = ctx.measureText(line).width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(actor.x - width / 2 - 2, y - 10, width + 4, 10);
+    ctx.fillStyle = LABEL_COLOR;
+    ctx.fillText(line, actor.x, y);
+  });
+}
+
+function drawStats(ctx: CanvasRenderingContext2D, state: SimulationState, { fps }: DebugOverlayOptions) {
+  const lines = [
+    `FPS ${fps.toFixed(0)}`,
+    `Tick ${state.tick} · play ${state.playTicks}`,
+    `Phase ${state.ghostPhase} · frightened ${state.frightenedTicks}`,
+    `Pellets ${state.pelletsLeft}`,
+  ];
+  ctx.font = 'bold 11px ui-monospace, monospace';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  const width = Math.max(...lines.map(line => ctx.measureText(line).width)) + 12;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(4, 4, width, lines.length * 14 + 8);
+  ctx.fillStyle = LABEL_COLOR;
+  lines.forEach((line, i) => ctx.fillText(line, 10, 8 + i * 14));
+}
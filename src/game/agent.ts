@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GhostMode, HouseState } from './entities';
+import { BonusFruit } from './fruit';
+import { GhostPhase } from './ghostAI';
+import { GameSimulation, SimulationOptions, SimulationState } from './simulation';
+import { Direction, GameEvent, GameStatus } from './types';
+
+// Gym-style wrapper around the simulation for bots and benchmarks: reset(seed), observe(), step(action).
+// Runs anywhere the simulation does, Node included; nothing here touches a canvas.
+
+export const DEATH_PENALTY = 500;
+
+export interface ActorObservation {
+  x: number; // Pixels
+  y: number;
+  gridX: number;
+  gridY: number;
+  direction: Direction;
+  speed: number; // Pixels per tick
+}
+
+export interface GhostObservation extends ActorObservation {
+  mode: GhostMode;
+  merging: boolean; // Heading for the merge point, harmless until it is the Ultimate Ghost
+  houseState: HouseState;
+}
+
+export interface UltimateGhostObservation extends ActorObservation {
+  stunnedTicks: number;
+}
+
+// Plain data only, so it can be logged or sent to a bot written in another language as JSON
+export interface Observation {
+  tick: number;
+  status: GameStatus;
+  score: number;
+  lives: number;
+  pelletsLeft: number;
+  frightenedTicks: number;
+  ghostPhase: GhostPhase;
+  grid: number[][]; // TileType per tile, with eaten pellets gone
+  pacman: ActorObservation;
+  ghosts: GhostObservation[]; // Merged ghosts are left out
+  ultimateGhost: UltimateGhostObservation | null;
+  fruit: BonusFruit | null; // At grid tile x, y
+}
+
+export interface StepResult {
+  observation: Observation;
+  reward: number; // Points scored during the step, less DEATH_PENALTY for each life lost
+  done: boolean; // The board was won or lost, or maxTicks ran out
+  info: { events: GameEvent[]; truncated: boolean };
+}
+
+export interface EnvironmentOptions extends Omit<SimulationOptions, 'seed'> {
+  ticksPerStep?: number; // Simulation ticks per step(), all with the same action
+  maxTicks?: number; // Episodes still going after this many ticks end as truncated
+  deathPenalty?: number;
+}
+
+// A bot: picks an action for each observation. Directions are buffered turns, as with a player's keys,
+// and null keeps Pac-Man going the way he is.
+export interface Agent {
+  readonly name: string;
+  reset?(): void; // Called before each episode
+  act(observation: Observation): Direction;
+}
+
+function actor({ x, y, gridX, gridY, direction, speed }: ActorObservation): ActorObservation {
+  return { x, y, gridX, gridY, direction, speed };
+}
+
+export function observe(state: SimulationState): Observation {
+  const ug = state.ultimateGhost;
+  return {
+    tick: state.tick,
+    status: state.status,
+    score: state.score,
+    lives: state.lives,
+    pelletsLeft: state.pelletsLeft,
+    frightenedTicks: state.frightenedTicks,
+    ghostPhase: state.ghostPhase,
+    grid: state.map.map(row => [...row]),
+    pacman: actor(state.pacman),
+    ghosts: state.ghosts.filter(ghost => !ghost.merged).map(ghost => ({
+      ...actor(ghost),
+      mode: ghost.mode,
+      merging: ghost.isMerging,
+      houseState: ghost.houseState,
+    })),
+    ultimateGhost: ug ? { ...actor(ug), stunnedTicks: ug.stunnedTicks } : null,
+    fruit: state.fruit ? { ...state.fruit } : null,
+  };
+}
+
+export class GameEnvironment {
+  private readonly options: EnvironmentOptions;
+  private sim: GameSimulation;
+
+  constructor(options: EnvironmentOptions = {}) {
+    this.options = options;
+    this.sim = new GameSimulation({ ...options, seed: 0 });
+  }
+
+  // The full simulation state, for bots that want more than the observation (e.g. the maze graph)
+  get state(): SimulationState {
+    return this.sim.getState();
+  }
+
+  reset(seed: number): Observation {
+    this.sim = new GameSimulation({ ...this.options, seed });
+    return this.observe();
+  }
+
+  observe(): Observation {
+    return observe(this.sim.getState());
+  }
+
+  step(action: Direction): StepResult {
+    const { ticksPerStep = 1, maxTicks = Infinity, deathPenalty = DEATH_PENALTY } = this.options;
+    const scoreBefore = this.sim.getState().score;
+    const events: GameEvent[] = [];
+
+    for (let i = 0; i < ticksPerStep && this.sim.getState().status === 'PLAYING'; i++) {
+      events.push(...this.sim.step({ direction: action }));
+    }
+
+    const state = this.sim.getState();
+    const deaths = events.filter(event => event.type === 'PACMAN_DIED').length;
+    const truncated = state.status === 'PLAYING' && state.tick >= maxTicks;
+    return {
+      observation: observe(state),
+      reward: state.score - scoreBefore - deaths * deathPenalty,
+      done: state.status !== 'PLAYING' || truncated,
+      info: { events, truncated },
+    };
+  }
+}
+
+export interface EpisodeResult {
+  seed: number;
+  status: GameStatus;
+  score: number;
+  ticks: number;
+  totalReward: number;
+  truncated: boolean;
+}
+
+// Play one episode to the end
+export function runEpisode(env: GameEnvironment, agent: Agent, seed: number): EpisodeResult {
+  agent.reset?.();
+  let observation = env.reset(seed);
+  let totalReward = 0;
+  for (;;) {
+    const { observation: next, reward, done, info } = env.step(agent.act(observation));
+    observation = next;
+    totalReward += reward;
+    if (done) return { seed, status: next.status, score: next.score, ticks: next.tick, totalReward, truncated: info.truncated };
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TILE_SIZE, TileType } from '../constants';
+import { ActorObservation, Agent, Observation } from './agent';
+import { MazeGraph } from './mazeGraph';
+import { isEdible } from './simulation';
+import { Direction, Position } from './types';
+
+// Reference Pac-Man bots for the agent API, also the baselines for `npm run bench`
+
+const DANGER_RADIUS = 6; // Tiles; ghosts further away than this are ignored when choosing a pellet
+const SAFETY_MARGIN = 1; // Tiles a route must stay ahead of every ghost by
+
+// The walls never change during an episode, so each bot builds its graph once from the first observation
+abstract class GraphAgent implements Agent {
+  abstract readonly name: string;
+  private graph: MazeGraph | null = null;
+
+  reset() {
+    this.graph = null;
+  }
+
+  act(observation: Observation): Direction {
+    this.graph ??= new MazeGraph(observation.grid);
+    return this.choose(observation, this.graph);
+  }
+
+  protected abstract choose(observation: Observation, graph: MazeGraph): Direction;
+}
+
+// Breadth-first search from `from`, expanding only tiles `allowed` accepts, for the nearest tile `goal`
+// accepts; returns the first step towards it
+function searchFirstStep(
+  graph: MazeGraph,
+  from: Position,
+  goal: (x: number, y: number) => boolean,
+  allowed: (x: number, y: number, steps: number) => boolean = () => true,
+): Direction {
+  const start = from.y * graph.width + from.x;
+  const first = new Map<number, NonNullable<Direction>>(); // First step of the route to each tile found
+  const queue: { index: number; steps: number }[] = [{ index: start, steps: 0 }];
+
+  for (let head = 0; head < queue.length; head++) {
+    const { index, steps } = queue[head];
+    const x = index % graph.width;
+    const y = Math.floor(index / graph.width);
+    for (const n of graph.neighbours(x, y)) {
+      const next = n.y * graph.width + n.x;
+      if (next === start || first.has(next) || !allowed(n.x, n.y, steps + 1)) continue;
+      const dir = index === start ? n.dir : first.get(index)!;
+      if (goal(n.x, n.y)) return dir;
+      first.set(next, dir);
+      queue.push({ index: next, steps: steps + 1 });
+    }
+  }
+  return null;
+}
+
+// Turns only happen at tile centres, so once Pac-Man is past the centre of his tile the choice is
+// really about the next one
+function decisionTile({ x, y, gridX, gridY, direction }: ActorObservation, graph: MazeGraph): Position {
+  const dx = x - (gridX * TILE_SIZE + TILE_SIZE / 2);
+  const dy = y - (gridY * TILE_SIZE + TILE_SIZE / 2);
+  const past = (direction === 'RIGHT' && dx > 0) || (direction === 'LEFT' && dx < 0)
+    || (direction === 'DOWN' && dy > 0) || (direction === 'UP' && dy < 0);
+  const ahead = past && graph.neighbours(gridX, gridY).find(n => n.dir === direction);
+  return ahead ? { x: ahead.x, y: ahead.y } : { x: gridX, y: gridY };
+}
+
+function pelletAt(observation: Observation) {
+  return (x: number, y: number) => isEdible(observation.grid[y][x]);
+}
+
+// Ghosts that would catch Pac-Man right now
+function threats(observation: Observation): ActorObservation[] {
+  const ghosts: ActorObservation[] = observation.ghosts.filter(ghost => ghost.mode === 'NORMAL' && !ghost.merging);
+  const ug = observation.ultimateGhost;
+  if (ug && ug.stunnedTicks === 0) ghosts.push(ug);
+  return ghosts;
+}
+
+// Heads for the closest pellet and pays no attention to the ghosts at all
+export class GreedyAgent extends GraphAgent {
+  readonly name = 'greedy';
+
+  protected choose(observation: Observation, graph: MazeGraph): Direction {
+    return searchFirstStep(graph, decisionTile(observation.pacman, graph), pelletAt(observation));
+  }
+}
+
+// Goes for the closest pellet it can reach before any ghost could get in the way. With a ghost close
+// and no such pellet, it makes for a power pellet if one is safely reachable, and otherwise runs for
+// the neighbouring tile furthest from every ghost.
+export class GhostAvoidingAgent extends GraphAgent {
+  readonly name = 'avoider';
+
+  protected choose(observation: Observation, graph: MazeGraph): Direction {
+    const from = decisionTile(observation.pacman, graph);
+    // Distances are in Pac-Man's steps, so a ghost twice his speed is half as far away
+    const ghosts = threats(observation).map(ghost => ({
+      field: graph.distanceField(ghost.gridX, ghost.gridY),
+      scale: observation.pacman.speed / ghost.speed,
+    }));
+    const ghostSteps = (x: number, y: number) => {
+      const index = y * graph.width + x;
+      let nearest = Infinity;
+      for (const { field, scale } of ghosts) if (field[index] !== -1) nearest = Math.min(nearest, field[index] * scale);
+      return nearest;
+    };
+
+    if (ghostSteps(from.x, from.y) > DANGER_RADIUS) return searchFirstStep(graph, from, pelletAt(observation));
+
+    const safe = (x: number, y: number, steps: number) => steps + SAFETY_MARGIN < ghostSteps(x, y);
+    const powerPellet = (x: number, y: number) => observation.grid[y][x] === TileType.POWER_PELLET;
+    const step = searchFirstStep(graph, from, powerPellet, safe) ?? searchFirstStep(graph, from, pelletAt(observation), safe);
+    if (step) return step;
+
+    // Nothing safe to eat: get away
+    let best: Direction = null;
+    let bestSteps = -1;
+    for (const n of graph.neighbours(from.x, from.y)) {
+      const steps = ghostSteps(n.x, n.y);
+      if (steps > bestSteps) {
+        best = n.dir;
+        bestSteps = steps;
+      }
+    }
+    return best;
+  }
+}
+
+export const BOTS: Record<string, () => Agent> = {
+  greedy: () => new GreedyAgent(),
+  avoider: () => new GhostAvoidingAgent(),
+};
@@ -0,0 +1,363 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TILE_SIZE, TileType } from '../constants';
+import type { GhostContext, GhostStrategy } from './ghostAI';
+import type { GhostHouse } from './ghostHouse';
+import { Random } from './rng';
+import { Direction, Position } from './types';
+
+export class Entity {
+  x: number;
+  y: number;
+  gridX: number;
+  gridY: number;
+  direction: Direction = null;
+  nextDirection: Direction = null;
+  speed: number = 2;
+
+  constructor(gridX: number, gridY: number) {
+    this.gridX = gridX;
+    this.gridY = gridY;
+    this.x = gridX * TILE_SIZE + TILE_SIZE / 2;
+    this.y = gridY * TILE_SIZE + TILE_SIZE / 2;
+  }
+
+  canMove(dir: Direction, map: number[][]): boolean {
+    if (!dir) return false;
+    let nextGridX = this.gridX;
+    let nextGridY = this.gridY;
+
+    if (dir === 'UP') nextGridY--;
+    if (dir === 'DOWN') nextGridY++;
+    if (dir === 'LEFT') nextGridX--;
+    if (dir === 'RIGHT') nextGridX++;
+
+    if (nextGridY < 0 || nextGridY >= map.length || nextGridX < 0 || nextGridX >= map[0].length) {
+      // Leaving the grid is only allowed from a tunnel tile, and lands on the opposite edge
+      if (map[this.gridY][this.gridX] !== TileType.TUNNEL) return false;
+      nextGridX = (nextGridX + map[0].length) % map[0].length;
+      nextGridY = (nextGridY + map.length) % map.length;
+    }
+    return this.canEnter(nextGridX, nextGridY, dir, map);
+  }
+
+  // Whether a tile next to this one can be stepped onto, heading `dir`. Pac-Man stays out of the ghost house.
+  protected canEnter(x: number, y: number, dir: NonNullable<Direction>, map: number[][]): boolean {
+    return map[y][x] !== TileType.WALL && map[y][x] !== TileType.GHOST_DOOR;
+  }
+
+  isInTunnel(map: number[][]): boolean {
+    return map[this.gridY]?.[this.gridX] === TileType.TUNNEL;
+  }
+
+  // Move one step along the current direction, wrapping around the maze edges
+  protected advance(map: number[][]) {
+    if (this.direction === 'UP') this.y -= this.speed;
+    if (this.direction === 'DOWN') this.y += this.speed;
+    if (this.direction === 'LEFT') this.x -= this.speed;
+    if (this.direction === 'RIGHT') this.x += this.speed;
+
+    const width = map[0].length * TILE_SIZE;
+    const height = map.length * TILE_SIZE;
+    this.x = (this.x + width) % width;
+    this.y = (this.y + height) % height;
+
+    // Update grid coordinates
+    this.gridX = Math.floor(this.x / TILE_SIZE);
+    this.gridY = Math.floor(this.y / TILE_SIZE);
+  }
+
+  updatePosition(map: number[][]) {
+    const centerX = this.gridX * TILE_SIZE + TILE_SIZE / 2;
+    const centerY = this.gridY * TILE_SIZE + TILE_SIZE / 2;
+
+    // Check if we are at the center of the tile (with a small epsilon for float safety)
+    const atCenter = Math.abs(this.x - centerX) < this.speed && Math.abs(this.y - centerY) < this.speed;
+
+    if (atCenter) {
+      // Snap to exact center
+      this.x = centerX;
+      this.y = centerY;
+
+      // Pacman-specific: check for pre-buffered turn
+      if (this.nextDirection && this.canMove(this.nextDirection, map)) {
+        this.direction = this.nextDirection;
+        this.nextDirection = null;
+      } else if (this.direction && !this.canMove(this.direction, map)) {
+        this.direction = null;
+      }
+    }
+
+    if (this.direction) this.advance(map);
+  }
+}
+
+export type GhostMode = 'NORMAL' | 'FRIGHTENED' | 'EATEN';
+// WAITING bobs in the ghost house, LEAVING heads out through the door, OUT roams the maze
+export type HouseState = 'WAITING' | 'LEAVING' | 'OUT';
+
+// Normal speed comes from the game rules, see Ghost.baseSpeed
+const GHOST_SPEEDS: Record<Exclude<GhostMode, 'NORMAL'>, number> = {
+  FRIGHTENED: 1,
+  EATEN: 4, // Eyes hurry back to the ghost house
+};
+const BOB_SPEED = 0.5;
+const BOB_HEIGHT = TILE_SIZE / 8; // Pixels above and below the tile centre a waiting ghost bobs
+
+const OPPOSITE: Record<NonNullable<Direction>, Direction> = {
+  UP: 'DOWN',
+  DOWN: 'UP',
+  LEFT: 'RIGHT',
+  RIGHT: 'LEFT',
+};
+
+// Grid tile reached by taking one step in a direction
+export function offset(x: number, y: number, dir: Direction): Position {
+  if (dir === 'UP') return { x, y: y - 1 };
+  if (dir === 'DOWN') return { x, y: y + 1 };
+  if (dir === 'LEFT') return { x: x - 1, y };
+  if (dir === 'RIGHT') return { x: x + 1, y };
+  return { x, y };
+}
+
+export class Ghost extends Entity {
+  isMerging: boolean = false;
+  merged: boolean = false;
+  tunnelSpeed: number | null = 1; // Slower inside tunnels; null disables the slow-down
+  mode: GhostMode = 'NORMAL';
+  baseSpeed: number = 2; // Speed in NORMAL mode
+  homeX: number;
+  homeY: number;
+  strategy: GhostStrategy | null; // null keeps the old random wandering
+  target: Position | null = null; // Last tile the strategy aimed for
+  controlled: boolean = false; // Steered by a player through nextDirection instead of the AI
+  house: GhostHouse | null = null; // Where it starts, when the maze has a walled-in house
+  houseState: HouseState = 'OUT';
+
+  constructor(gridX: number, gridY: number, strategy: GhostStrategy | null = null) {
+    super(gridX, gridY);
+    this.strategy = strategy;
+    this.speed = 2; 
+    this.homeX = gridX;
+    this.homeY = gridY;
+  }
+
+  reverse() {
+    if (this.direction) this.direction = OPPOSITE[this.direction];
+  }
+
+  // Power pellet: turn around and run. Merging ghosts and returning eyes are unaffected.
+  frighten() {
+    if (this.isMerging || this.merged || this.mode === 'EATEN') return;
+    this.mode = 'FRIGHTENED';
+    if (this.houseState === 'OUT') this.reverse();
+  }
+
+  // Let out of the house. It first settles back on the centre of the tile it was bobbing on.
+  release() {
+    if (this.houseState !== 'WAITING') return;
+    this.houseState = 'LEAVING';
+    const centerY = this.gridY * TILE_SIZE + TILE_SIZE / 2;
+    this.direction = this.y < centerY ? 'DOWN' : this.y > centerY ? 'UP' : null;
+  }
+
+  // The door only opens outwards for a ghost on its way out, and inwards for eyes going home
+  // or a ghost on its way to merge
+  protected canEnter(x: number, y: number, dir: NonNullable<Direction>, map: number[][]): boolean {
+    if (map[y][x] !== TileType.GHOST_DOOR) return map[y][x] !== TileType.WALL;
+    const door = this.house?.doorAt(x, y);
+    if (!door) return false;
+    if (dir === door.out) return this.houseState === 'LEAVING';
+    if (dir === door.in) return this.mode === 'EATEN' || this.isMerging;
+    return false;
+  }
+
+  // Up and down on the spot until released
+  private bob() {
+    const centerY = this.gridY * TILE_SIZE + TILE_SIZE / 2;
+    if (this.direction !== 'UP' && this.direction !== 'DOWN') this.direction = 'UP';
+    this.y += this.direction === 'UP' ? -BOB_SPEED : BOB_SPEED;
+    if (Math.abs(this.y - centerY) >= BOB_HEIGHT) this.reverse();
+  }
+
+  // Out once it reaches the centre of a tile past the doorway; call at tile centres
+  protected updateHouseState() {
+    if (this.houseState === 'LEAVING' && !this.house?.isHome(this.gridX, this.gridY)) this.houseState = 'OUT';
+  }
+
+  updateAI(ctx: GhostContext, rng: Random) {
+    if (this.merged) return;
+    const { map, pacman } = ctx;
+
+    // Speed up when merging
+    let currentSpeed = this.isMerging ? 3 : this.mode === 'NORMAL' ? this.baseSpeed : GHOST_SPEEDS[this.mode];
+    if (!this.isMerging && this.mode !== 'EATEN' && this.tunnelSpeed !== null && this.isInTunnel(map)) {
+      currentSpeed = Math.min(currentSpeed, this.tunnelSpeed);
+    }
+    this.speed = currentSpeed;
+
+    if (this.houseState === 'WAITING') {
+      this.bob();
+      return;
+    }
+
+    // A player steers like Pacman does; merging, leaving the house and heading home as eyes stay automatic
+    if (this.controlled && !this.isMerging && this.mode !== 'EATEN' && this.houseState === 'OUT') {
+      this.updatePosition(map);
+      return;
+    }
+
+    const centerX = this.gridX * TILE_SIZE + TILE_SIZE / 2;
+    const centerY = this.gridY * TILE_SIZE + TILE_SIZE / 2;
+    const atCenter = Math.abs(this.x - centerX) < currentSpeed && Math.abs(this.y - centerY) < currentSpeed;
+
+    if (this.isMerging) {
+      if (atCenter || !this.direction) {
+        this.x = centerX;
+        this.y = centerY;
+
+        if (this.gridX === ctx.mergePoint.x && this.gridY === ctx.mergePoint.y) {
+          this.merged = true;
+          this.direction = null;
+          return;
+        }
+
+        // Follow the corridors to the merge point
+        this.direction = ctx.graph.nextDirection({ x: this.gridX, y: this.gridY }, ctx.mergePoint) ?? this.direction;
+      }
+
+      if (this.direction) this.advance(map);
+      return;
+    }
+
+    // Out through the nearest door
+    if (this.houseState === 'LEAVING' && this.mode !== 'EATEN' && (atCenter || !this.direction)) this.updateHouseState();
+    if (this.houseState === 'LEAVING' && this.mode !== 'EATEN' && this.house) {
+      if (atCenter || !this.direction) {
+        this.x = centerX;
+        this.y = centerY;
+        const here = { x: this.gridX, y: this.gridY };
+        this.direction = ctx.graph.nextDirection(here, this.house.nearestExit(ctx.graph, here)) ?? this.direction;
+      }
+      if (this.direction) this.advance(map);
+      return;
+    }
+
+    if (atCenter || !this.direction) {
+      this.x = centerX;
+      this.y = centerY;
+
+      // Eyes that made it home come back to life, and leave again straight away
+      if (this.mode === 'EATEN' && this.gridX === this.homeX && this.gridY === this.homeY) {
+        this.mode = 'NORMAL';
+        if (this.house) {
+          this.houseState = 'LEAVING';
+          return;
+        }
+      }
+
+      const directions: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+      
+      const available = directions.filter(d => {
+        const isReverse = this.direction !== null && d === OPPOSITE[this.direction];
+        return this.canMove(d, map) && (!isReverse || directions.filter(dir => this.canMove(dir, map)).length === 1);
+      });
+
+      if (available.length > 0) {
+        if (this.mode === 'EATEN') {
+          const home = { x: this.homeX, y: this.homeY };
+          this.direction = ctx.graph.nextDirection({ x: this.gridX, y: this.gridY }, home) ?? this.closestDirection(available, home.x, home.y);
+        } else if (this.mode === 'FRIGHTENED') {
+          // Usually take the exit leading furthest from Pacman, sometimes panic at random
+          const away = [...available].sort((a, b) => {
+            const pa = offset(this.gridX, this.gridY, a);
+            const pb = offset(this.gridX, this.gridY, b);
+            return Math.hypot(pb.x - pacman.gridX, pb.y - pacman.gridY) - Math.hypot(pa.x - pacman.gridX, pa.y - pacman.gridY);
+          });
+          this.direction = rng.next() < 0.75 ? away[0] : rng.pick(available);
+        } else if (this.strategy) {
+          this.target = ctx.phase === 'SCATTER' ? this.strategy.scatterTarget(map) : this.strategy.chaseTarget(this, ctx);
+          this.direction = this.closestDirection(available, this.target.x, this.target.y);
+        } else if (this.direction && this.canMove(this.direction, map) && rng.next() < 0.7) {
+        } else {
+          this.direction = rng.pick(available);
+        }
+      }
+    }
+
+    if (this.direction) this.advance(map);
+  }
+
+  // Classic arcade targeting: the exit whose next tile is nearest the target in a straight line
+  protected closestDirection(available: Direction[], targetX: number, targetY: number): Direction {
+    let best = available[0];
+    let bestDist = Infinity;
+    for (const dir of available) {
+      const next = offset(this.gridX, this.gridY, dir);
+      const dist = Math.hypot(next.x - targetX, next.y - targetY);
+      if (dist < bestDist) {
+        best = dir;
+        bestDist = dist;
+      }
+    }
+    return best;
+  }
+}
+
+export class UltimateGhost extends Ghost {
+  stunnedTicks: number = 0;
+  accuracy: number = 0.8; // Chance of taking the best turn at each junction
+
+  constructor(gridX: number, gridY: number) {
+    super(gridX, gridY);
+    this.speed = 3; // Faster than normal ghosts
+    this.merged = true; // It's already the result of merging
+  }
+
+  // Too big to be eaten: a power pellet only freezes it for a moment
+  stun(ticks: number) {
+    this.stunnedTicks = ticks;
+  }
+
+  updateChasingAI(ctx: GhostContext, rng: Random) {
+    const { map, pacman } = ctx;
+    if (this.stunnedTicks > 0) {
+      this.stunnedTicks--;
+      return;
+    }
+    // A player takes over once it is out of the house
+    if (this.controlled && this.houseState === 'OUT') {
+      this.updatePosition(map);
+      return;
+    }
+
+    const centerX = this.gridX * TILE_SIZE + TILE_SIZE / 2;
+    const centerY = this.gridY * TILE_SIZE + TILE_SIZE / 2;
+    const atCenter = Math.abs(this.x - centerX) < this.speed && Math.abs(this.y - centerY) < this.speed;
+
+    if (atCenter || !this.direction) {
+      this.x = centerX;
+      this.y = centerY;
+      this.updateHouseState();
+
+      const directions: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+      const available = directions.filter(d => this.canMove(d, map));
+      
+      if (available.length > 0) {
+        // Shortest path through the maze, with the occasional wrong turn so it can be outrun
+        const best = ctx.graph.nextDirection({ x: this.gridX, y: this.gridY }, { x: pacman.gridX, y: pacman.gridY }, available);
+        this.target = { x: pacman.gridX, y: pacman.gridY };
+        if (best && rng.next() < this.accuracy) {
+          this.direction = best;
+        } else {
+          this.direction = rng.pick(available);
+        }
+      }
+    }
+
+    if (this.direction) this.advance(map);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TileType } from '../constants';
+import type { GhostHouse } from './ghostHouse';
+import { MazeGraph } from './mazeGraph';
+import { Position } from './types';
+
+// Bonus fruit: shows up below the ghost house after a share of the board's pellets are eaten
+
+export type FruitKind = 'cherry' | 'strawberry' | 'orange' | 'apple' | 'melon' | 'galaxian' | 'bell' | 'key';
+
+export interface FruitType {
+  kind: FruitKind;
+  points: number;
+  color: string;
+}
+
+// One on the board, at grid tile x, y
+export interface BonusFruit extends FruitType, Position {
+  ticksLeft: number;
+}
+
+// By level, as in the arcade; later levels keep the last one
+export const FRUITS: FruitType[] = [
+  { kind: 'cherry', points: 100, color: '#E84118' },
+  { kind: 'strawberry', points: 300, color: '#FF3F6C' },
+  { kind: 'orange', points: 500, color: '#FFA502' },
+  { kind: 'apple', points: 700, color: '#C23616' },
+  { kind: 'melon', points: 1000, color: '#4CD137' },
+  { kind: 'galaxian', points: 2000, color: '#FBC531' },
+  { kind: 'bell', points: 3000, color: '#FFD32A' },
+  { kind: 'key', points: 5000, color: '#7ED6DF' },
+];
+
+// Shares of the board's pellets eaten at which a fruit appears; boards that refill go round again
+export const FRUIT_SHARES = [0.3, 0.7];
+
+export function fruitFor(levelNumber: number): FruitType {
+  return FRUITS[Math.max(0, Math.min(levelNumber, FRUITS.length) - 1)];
+}
+
+// Whether eating the nth pellet of a board with `total` pellets brings out a fruit
+export function fruitDue(eaten: number, total: number): boolean {
+  if (total === 0) return false;
+  const cycle = ((eaten - 1) % total) + 1;
+  return FRUIT_SHARES.some(share => Math.max(1, Math.round(share * total)) === cycle);
+}
+
+// The first tile straight below the ghost house (or the merge point, in mazes without one) that
+// Pac-Man can reach; his start tile if there is none
+export function findFruitTile(
+  grid: readonly (readonly number[])[],
+  below: Position,
+  house: GhostHouse | null,
+  pacmanStart: Position,
+): Position {
+  const graph = new MazeGraph(grid);
+  const field = graph.distanceField(pacmanStart.x, pacmanStart.y);
+  for (let y = below.y + 1; y < graph.height; y++) {
+    if (house?.isHome(below.x, y) || grid[y][below.x] === TileType.TUNNEL) continue;
+    if (field[y * graph.width + below.x] >= 0) return { x: below.x, y };
+  }
+  return pacmanStart;
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICKS_PER_SECOND } from '../constants';
+import type { Entity, Ghost } from './entities';
+import type { MazeGraph } from './mazeGraph';
+import { Direction, Position } from './types';
+
+export type GhostPhase = 'SCATTER' | 'CHASE';
+
+export interface GhostContext {
+  map: number[][];
+  pacman: Entity;
+  ghosts: readonly Ghost[];
+  phase: GhostPhase;
+  graph: MazeGraph;
+  mergePoint: Position;
+}
+
+// A ghost personality: where it heads while chasing, and which corner it retreats to while scattering
+export interface GhostStrategy {
+  name: string;
+  chaseTarget(ghost: Ghost, ctx: GhostContext): Position;
+  scatterTarget(map: number[][]): Position;
+}
+
+function ahead(entity: Entity, tiles: number): Position {
+  const dx: Record<NonNullable<Direction>, number> = { UP: 0, DOWN: 0, LEFT: -1, RIGHT: 1 };
+  const dy: Record<NonNullable<Direction>, number> = { UP: -1, DOWN: 1, LEFT: 0, RIGHT: 0 };
+  if (!entity.direction) return { x: entity.gridX, y: entity.gridY };
+  return {
+    x: entity.gridX + dx[entity.direction] * tiles,
+    y: entity.gridY + dy[entity.direction] * tiles,
+  };
+}
+
+// Goes straight for Pacman's tile
+export const chaser: GhostStrategy = {
+  name: 'chaser',
+  chaseTarget: (_ghost, { pacman }) => ({ x: pacman.gridX, y: pacman.gridY }),
+  scatterTarget: map => ({ x: map[0].length - 2, y: -2 }),
+};
+
+// Aims four tiles in front of Pacman to cut him off
+export const ambusher: GhostStrategy = {
+  name: 'ambusher',
+  chaseTarget: (_ghost, { pacman }) => ahead(pacman, 4),
+  scatterTarget: () => ({ x: 1, y: -2 }),
+};
+
+// Doubles the vector from the chaser to two tiles ahead of Pacman, pinching him from the other side
+export const flanker: GhostStrategy = {
+  name: 'flanker',
+  chaseTarget: (ghost, { pacman, ghosts }) => {
+    const pivot = ahead(pacman, 2);
+    const partner = ghosts.find(g => g.strategy === chaser) ?? ghost;
+    return {
+      x: pivot.x * 2 - partner.gridX,
+      y: pivot.y * 2 - partner.gridY,
+    };
+  },
+  scatterTarget: map => ({ x: map[0].length - 1, y: map.length + 1 }),
+};
+
+// Chases from afar but loses its nerve within eight tiles and retreats to its corner
+export const shy: GhostStrategy = {
+  name: 'shy',
+  chaseTarget: (ghost, { pacman, map }) => {
+    const dist = Math.hypot(ghost.gridX - pacman.gridX, ghost.gridY - pacman.gridY);
+    return dist > 8 ? { x: pacman.gridX, y: pacman.gridY } : shy.scatterTarget(map);
+  },
+  scatterTarget: map => ({ x: 0, y: map.length + 1 }),
+};
+
+// Assigned in order to the ghosts found on the map
+export const DEFAULT_STRATEGIES: GhostStrategy[] = [chaser, flanker, ambusher, shy];
+
+export interface PhaseSpan {
+  phase: GhostPhase;
+  ticks: number; // Infinity for the final, permanent phase
+}
+
+const s = (seconds: number) => seconds * TICKS_PER_SECOND;
+
+// Arcade scatter/chase timings; later levels scatter less and chase for good sooner
+export function getPhaseSchedule(level: number): PhaseSpan[] {
+  if (level <= 1) {
+    return [
+      { phase: 'SCATTER', ticks: s(7) },
+      { phase: 'CHASE', ticks: s(20) },
+      { phase: 'SCATTER', ticks: s(7) },
+      { phase: 'CHASE', ticks: s(20) },
+      { phase: 'SCATTER', ticks: s(5) },
+      { phase: 'CHASE', ticks: s(20) },
+      { phase: 'SCATTER', ticks: s(5) },
+      { phase: 'CHASE', ticks: Infinity },
+    ];
+  }
+  if (level <= 4) {
+    return [
+      { phase: 'SCATTER', ticks: s(7) },
+      { phase: 'CHASE', ticks: s(20) },
+      { phase: 'SCATTER', ticks: s(7) },
+      { phase: 'CHASE', ticks: s(20) },
+      { phase: 'SCATTER', ticks: s(5) },
+      { phase: 'CHASE', ticks: s(60) },
+      { phase: 'SCATTER', ticks: 1 },
+      { phase: 'CHASE', ticks: Infinity },
+    ];
+  }
+  return [
+    { phase: 'SCATTER', ticks: s(5) },
+    { phase: 'CHASE', ticks: s(20) },
+    { phase: 'SCATTER', ticks: s(5) },
+    { phase: 'CHASE', ticks: s(20) },
+    { phase: 'SCATTER', ticks: s(5) },
+    { phase: 'CHASE', ticks: s(60) },
+    { phase: 'SCATTER', ticks: 1 },
+    { phase: 'CHASE', ticks: Infinity },
+  ];
+}
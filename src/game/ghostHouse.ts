@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICKS_PER_SECOND, TileType } from '../constants';
+import { MazeGraph } from './mazeGraph';
+import { Direction, Position } from './types';
+
+// Pellets the first ghost still waiting must see Pac-Man eat before it leaves, by ghost index;
+// ghosts past the end of the list use the last entry
+export const GHOST_RELEASE_PELLETS = [0, 10, 30, 50];
+// Pac-Man going this long without eating lets the next ghost out anyway
+export const GHOST_RELEASE_TIMEOUT_TICKS = 4 * TICKS_PER_SECOND;
+
+export function releasePellets(ghostIndex: number): number {
+  return GHOST_RELEASE_PELLETS[Math.min(ghostIndex, GHOST_RELEASE_PELLETS.length - 1)];
+}
+
+export interface HouseDoor extends Position {
+  out: NonNullable<Direction>; // Direction of travel when leaving through it
+  in: NonNullable<Direction>;
+  exit: Position; // The maze tile just outside
+}
+
+// The tiles around the GHOST_START tiles that are walled off from the maze, except for their doors
+export class GhostHouse {
+  readonly doors: HouseDoor[];
+  private readonly width: number;
+  private readonly tiles: Set<number>;
+
+  constructor(width: number, tiles: Set<number>, doors: HouseDoor[]) {
+    this.width = width;
+    this.tiles = tiles;
+    this.doors = doors;
+  }
+
+  contains(x: number, y: number): boolean {
+    return this.tiles.has(y * this.width + x);
+  }
+
+  doorAt(x: number, y: number): HouseDoor | null {
+    return this.doors.find(door => door.x === x && door.y === y) ?? null;
+  }
+
+  // Inside, or in a doorway
+  isHome(x: number, y: number): boolean {
+    return this.contains(x, y) || this.doorAt(x, y) !== null;
+  }
+
+  // Exit of the door closest to a tile inside, by the ghosts' graph
+  nearestExit(graph: MazeGraph, from: Position): Position {
+    let best = this.doors[0].exit;
+    let bestDist = Infinity;
+    for (const door of this.doors) {
+      const dist = graph.distance(from, door.exit);
+      if (dist < bestDist) {
+        best = door.exit;
+        bestDist = dist;
+      }
+    }
+    return best;
+  }
+}
+
+// Null when a grid has no GHOST_DOOR, or its ghosts are not shut in behind one: then the ghosts
+// start out in the maze, as they did before houses had doors.
+export function findGhostHouse(grid: readonly (readonly number[])[]): GhostHouse | null {
+  const starts: Position[] = [];
+  const doorTiles: Position[] = [];
+  grid.forEach((row, y) => row.forEach((tile, x) => {
+    if (tile === TileType.GHOST_START) starts.push({ x, y });
+    if (tile === TileType.GHOST_DOOR) doorTiles.push({ x, y });
+  }));
+  if (starts.length === 0 || doorTiles.length === 0) return null;
+
+  // Everything the ghosts can reach without going through a door is the house
+  const graph = new MazeGraph(grid);
+  const width = graph.width;
+  const tiles = new Set<number>(starts.map(p => p.y * width + p.x));
+  const queue = [...starts];
+  for (let head = 0; head < queue.length; head++) {
+    for (const n of graph.neighbours(queue[head].x, queue[head].y)) {
+      const index = n.y * width + n.x;
+      if (tiles.has(index)) continue;
+      if (grid[n.y][n.x] === TileType.PACMAN_START) return null;
+      tiles.add(index);
+      queue.push(n);
+    }
+  }
+
+  const ghostGraph = new MazeGraph(grid, { ghostDoors: true });
+  const doors: HouseDoor[] = [];
+  for (const { x, y } of doorTiles) {
+    const around = ghostGraph.neighbours(x, y).filter(n => grid[n.y][n.x] !== TileType.GHOST_DOOR);
+    const inside = around.find(n => tiles.has(n.y * width + n.x));
+    const outside = around.find(n => !tiles.has(n.y * width + n.x));
+    if (inside && outside) doors.push({ x, y, out: outside.dir, in: inside.dir, exit: { x: outside.x, y: outside.y } });
+  }
+  return doors.length > 0 ? new GhostHouse(width, tiles, doors) : null;
+}
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MAP } from '../constants';
+import { LevelDefinition, parseAscii } from './levels';
+
+// Built-in level sequence; clearing a board moves on to the next one
+export const LEVELS: LevelDefinition[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    grid: MAP,
+  },
+  {
+    id: 'crossroads',
+    name: 'Crossroads',
+    palette: { wall: '#6C5CE7' },
+    rules: { winScore: null, pelletRespawnSeconds: null },
+    grid: parseAscii([
+      '###################',
+      '#o...#.......#...o#',
+      '#.##.#.#####.#.##.#',
+      '#.................#',
+      '#.##.#.##.##.#.##.#',
+      '#....#...#...#....#',
+      '####.### # ###.####',
+      '   #.#       #.#   ',
+      '####.# ##-## #.####',
+      '====.  #GGG#  .====',
+      '####.# ##### #.####',
+      '   #.#       #.#   ',
+      '####.# ##### #.####',
+      '#........#........#',
+      '#.##.###.#.###.##.#',
+      '#o.#.....P.....#.o#',
+      '##.#.#.#####.#.#.##',
+      '#....#...#...#....#',
+      '#.#######.#######.#',
+      '#.................#',
+      '###################',
+    ]),
+  },
+  {
+    id: 'gauntlet',
+    name: 'Gauntlet',
+    palette: { wall: '#E17055' },
+    rules: { winScore: null, pelletRespawnSeconds: null, frightenedSeconds: 4 },
+    grid: parseAscii([
+      '###################',
+      '#.................#',
+      '#.#.###.###.###.#.#',
+      '#o#.............#o#',
+      '#.#.##.#####.##.#.#',
+      '#....#.......#....#',
+      '####.### # ###.####',
+      '   #.#       #.#   ',
+      '####.# ##-## #.####',
+      '====.  #GGG#  .====',
+      '####.# ##### #.####',
+      '   #.#       #.#   ',
+      '####.# ##### #.####',
+      '#.......#.#.......#',
+      '#.##.#.#...#.#.##.#',
+      '#o...#...P...#...o#',
+      '###.##.##.##.##.###',
+      '#.................#',
+      '#.#######.#######.#',
+      '#.................#',
+      '###################',
+    ]),
+  },
+];
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LEVELS } from './levelPack';
+import {
+  LEVEL_FORMAT_VERSION, LevelValidationError, isGridShape, parseAscii, parseLevelFile, serializeLevel, validateGrid,
+} from './levels';
+
+// A small corridor with one of everything a level needs
+const SMALL = [
+  '#######',
+  '#P...o#',
+  '#######',
+];
+
+function problemsOf(input: unknown): string[] {
+  try {
+    parseLevelFile(input as string);
+  } catch (e) {
+    if (e instanceof LevelValidationError) return e.problems;
+    throw e;
+  }
+  return [];
+}
+
+describe('validateGrid', () => {
+  it('accepts every level in the pack', () => {
+    for (const level of LEVELS) expect(validateGrid(level.grid), level.id).toEqual([]);
+  });
+
+  it('accepts a minimal level', () => {
+    expect(validateGrid(parseAscii(SMALL))).toEqual([]);
+  });
+
+  it('rejects an empty grid', () => {
+    expect(validateGrid([])).toEqual(['The grid is empty']);
+  });
+
+  it('rejects ragged rows and unknown tiles', () => {
+    const grid = parseAscii(SMALL);
+    grid[1].push(1);
+    grid[2][0] = 9;
+    const problems = validateGrid(grid);
+    expect(problems).toContain('Row 1 has 8 tiles but row 0 has 7; the grid must be rectangular');
+    expect(problems).toContain('Unknown tile value 9 at row 2, column 0');
+  });
+
+  it('needs exactly one Pac-Man start', () => {
+    expect(validateGrid(parseAscii(['#####', '#...#', '#####']))).toContain('Missing PACMAN_START tile');
+    expect(validateGrid(parseAscii(['#####', '#P.P#', '#####']))[0]).toMatch(/^Found 2 PACMAN_START tiles/);
+  });
+
+  it('needs pellets to eat', () => {
+    expect(validateGrid(parseAscii(['#####', '#P  #', '#####']))).toContain('The level has no pellets to eat');
+  });
+
+  it('reports pellets Pac-Man cannot reach', () => {
+    const problems = validateGrid(parseAscii(['#######', '#P.#..#', '#######']));
+    expect(problems).toEqual(['2 pellet(s) cannot be reached from PACMAN_START (e.g. 4,1; 5,1)']);
+  });
+
+  it('reports a sealed ghost house and a door that leads nowhere', () => {
+    expect(validateGrid(parseAscii(['#######', '#P..#G#', '#######']))[0]).toMatch(/^Ghost house is sealed/);
+    expect(validateGrid(parseAscii(['#######', '#P...o#', '###-###'])))
+      .toEqual(['GHOST_DOOR at 3,2 does not lead out of a walled-in ghost house']);
+  });
+});
+
+describe('isGridShape', () => {
+  it('accepts rows of integers only', () => {
+    expect(isGridShape([[1, 2], [3, 4]])).toBe(true);
+    expect(isGridShape([])).toBe(false);
+    expect(isGridShape('grid')).toBe(false);
+    expect(isGridShape([[1, 2], 3])).toBe(false);
+    expect(isGridShape([[1, 2.5]])).toBe(false);
+    expect(isGridShape([['1']])).toBe(false);
+  });
+});
+
+describe('parseLevelFile', () => {
+  const file = { version: LEVEL_FORMAT_VERSION, id: 'small', name: 'Small', ascii: SMALL };
+
+  it('reads back what serializeLevel writes, in either format', () => {
+    const level = parseLevelFile(file);
+    expect(parseLevelFile(serializeLevel(level, 'ascii'))).toEqual(level);
+    expect(parseLevelFile(serializeLevel(level, 'grid'))).toEqual(level);
+  });
+
+  it('accepts ASCII rows joined with newlines', () => {
+    expect(parseLevelFile({ ...file, ascii: SMALL.join('\r\n') }).grid).toEqual(parseAscii(SMALL));
+  });
+
+  it('rejects text that is not a level object', () => {
+    expect(problemsOf('{')[0]).toMatch(/^Level file is not valid JSON/);
+    expect(problemsOf('null')).toEqual(['Level file must be a JSON object']);
+    expect(problemsOf({ ...file, version: 99 })).toEqual([`Unsupported level format version 99; expected ${LEVEL_FORMAT_VERSION}`]);
+    expect(problemsOf({ ...file, ascii: undefined })).toEqual(['Level file needs either a "grid" or an "ascii" field']);
+  });
+
+  it('rejects fields of the wrong type', () => {
+    expect(problemsOf({ ...file, id: 7 })).toEqual(['"id" and "name" must be strings']);
+    expect(problemsOf({ ...file, name: ['Small'] })).toEqual(['"id" and "name" must be strings']);
+    expect(problemsOf({ ...file, ascii: undefined, grid: [[1, 'x']] }))
+      .toEqual(['"grid" must be a non-empty array of rows of tile numbers']);
+    expect(problemsOf({ ...file, ascii: [1, 2] })).toEqual(['"ascii" must be a string or a non-empty array of row strings']);
+    expect(problemsOf({ ...file, ascii: ['#?#'] })).toEqual(["Unknown character '?' at row 0, column 1"]);
+  });
+
+  it('reports every problem with the level at once', () => {
+    const problems = problemsOf({ version: LEVEL_FORMAT_VERSION, ascii: ['#####', '#...#', '#####'] });
+    expect(problems).toEqual(['Level is missing an id', 'Level is missing a name', 'Missing PACMAN_START tile']);
+  });
+
+  it('loads a broken level without validating it', () => {
+    const level = parseLevelFile(JSON.stringify({ version: LEVEL_FORMAT_VERSION, ascii: ['###'] }), { validate: false });
+    expect(level).toMatchObject({ id: '', name: '', grid: [[1, 1, 1]] });
+  });
+});
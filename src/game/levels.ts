@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TileType } from '../constants';
+import { findGhostHouse } from './ghostHouse';
+import { MazeGraph } from './mazeGraph';
+import { GameRules, validateRules } from './rules';
+import { Position } from './types';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+export interface LevelPalette {
+  wall: string;
+  pellet: string;
+  background: string;
+}
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  grid: number[][];
+  palette?: Partial<LevelPalette>;
+  rules?: Partial<GameRules>; // Overrides the difficulty preset on this level
+}
+
+// On-disk shape: the grid may be given as number rows or as compact ASCII rows
+export interface LevelFile {
+  version: number;
+  id: string;
+  name: string;
+  grid?: number[][];
+  ascii?: string | string[]; // One string per row, or all rows in one separated by newlines
+  palette?: Partial<LevelPalette>;
+  rules?: Partial<GameRules>;
+}
+
+export class LevelValidationError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid level:\n- ${problems.join('\n- ')}`);
+    this.name = 'LevelValidationError';
+    this.problems = problems;
+  }
+}
+
+const ASCII_TILES: Record<string, TileType> = {
+  '#': TileType.WALL,
+  '.': TileType.PELLET,
+  'o': TileType.POWER_PELLET,
+  ' ': TileType.EMPTY,
+  'P': TileType.PACMAN_START,
+  'G': TileType.GHOST_START,
+  '=': TileType.TUNNEL,
+  '-': TileType.GHOST_DOOR,
+};
+
+const TILE_CHARS: Record<number, string> = Object.fromEntries(
+  Object.entries(ASCII_TILES).map(([char, tile]) => [tile, char]),
+);
+
+export function parseAscii(rows: string[]): number[][] {
+  const problems: string[] = [];
+  const grid = rows.map((row, y) => [...row].map((char, x) => {
+    const tile = ASCII_TILES[char];
+    if (tile === undefined) {
+      problems.push(`Unknown character '${char}' at row ${y}, column ${x}`);
+      return TileType.WALL;
+    }
+    return tile;
+  }));
+  if (problems.length > 0) throw new LevelValidationError(problems);
+  return grid;
+}
+
+export function toAscii(grid: readonly (readonly number[])[]): string[] {
+  return grid.map(row => row.map(tile => TILE_CHARS[tile] ?? '#').join(''));
+}
+
+export function findTiles(grid: readonly (readonly number[])[], type: TileType): Position[] {
+  const found: Position[] = [];
+  grid.forEach((row, y) => row.forEach((tile, x) => {
+    if (tile === type) found.push({ x, y });
+  }));
+  return found;
+}
+
+// Whether untrusted input (a file, a request body) is an array of integer rows that validateGrid can inspect
+export function isGridShape(value: unknown): value is number[][] {
+  return Array.isArray(value) && value.length > 0 && value.every(row => Array.isArray(row) && row.every(tile => Number.isInteger(tile)));
+}
+
+// Returns every problem found, so an editor can show them all at once; empty means valid
+export function validateGrid(grid: readonly (readonly number[])[]): string[] {
+  const problems: string[] = [];
+
+  if (grid.length === 0 || grid[0].length === 0) return ['The grid is empty'];
+
+  const width = grid[0].length;
+  grid.forEach((row, y) => {
+    if (row.length !== width) {
+      problems.push(`Row ${y} has ${row.length} tiles but row 0 has ${width}; the grid must be rectangular`);
+    }
+  });
+
+  const known = new Set<number>(Object.values(TileType).filter((v): v is number => typeof v === 'number'));
+  grid.forEach((row, y) => row.forEach((tile, x) => {
+    if (!known.has(tile)) problems.push(`Unknown tile value ${tile} at row ${y}, column ${x}`);
+  }));
+  if (problems.length > 0) return problems;
+
+  const starts = findTiles(grid, TileType.PACMAN_START);
+  if (starts.length === 0) problems.push('Missing PACMAN_START tile');
+  if (starts.length > 1) {
+    problems.push(`Found ${starts.length} PACMAN_START tiles (${starts.map(p => `${p.x},${p.y}`).join('; ')}); expected exactly one`);
+  }
+
+  const pellets = [...findTiles(grid, TileType.PELLET), ...findTiles(grid, TileType.POWER_PELLET)];
+  if (pellets.length === 0) problems.push('The level has no pellets to eat');
+
+  if (starts.length === 1) {
+    const graph = new MazeGraph(grid);
+    const field = graph.distanceField(starts[0].x, starts[0].y);
+    const reachable = (p: Position) => field[p.y * graph.width + p.x] >= 0;
+
+    const stranded = pellets.filter(p => !reachable(p));
+    if (stranded.length > 0) {
+      const sample = stranded.slice(0, 5).map(p => `${p.x},${p.y}`).join('; ');
+      problems.push(`${stranded.length} pellet(s) cannot be reached from PACMAN_START (e.g. ${sample})`);
+    }
+
+    // Ghosts may go through the house door, so they get their own graph
+    const ghostField = new MazeGraph(grid, { ghostDoors: true }).distanceField(starts[0].x, starts[0].y);
+    const sealed = findTiles(grid, TileType.GHOST_START).filter(p => ghostField[p.y * graph.width + p.x] < 0);
+    if (sealed.length > 0) {
+      problems.push(`Ghost house is sealed: GHOST_START at ${sealed.map(p => `${p.x},${p.y}`).join('; ')} has no way out to the maze`);
+    }
+
+    const doors = findTiles(grid, TileType.GHOST_DOOR);
+    const house = findGhostHouse(grid);
+    const useless = doors.filter(p => !house?.doorAt(p.x, p.y));
+    if (useless.length > 0) {
+      problems.push(`GHOST_DOOR at ${useless.map(p => `${p.x},${p.y}`).join('; ')} does not lead out of a walled-in ghost house`);
+    }
+  }
+
+  return problems;
+}
+
+export function validateLevel(level: LevelDefinition): string[] {
+  const problems: string[] = [];
+  if (!level.id) problems.push('Level is missing an id');
+  if (!level.name) problems.push('Level is missing a name');
+  return [...problems, ...validateRules(level.rules ?? {}), ...validateGrid(level.grid)];
+}
+
+// Parse and validate a level file (JSON text or an already-parsed object).
+// Pass validate: false to load a broken level into the editor for repair.
+export function parseLevelFile(input: string | LevelFile, { validate = true } = {}): LevelDefinition {
+  let file: LevelFile;
+  try {
+    file = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch (e) {
+    throw new LevelValidationError([`Level file is not valid JSON: ${(e as Error).message}`]);
+  }
+
+  if (!file || typeof file !== 'object') throw new LevelValidationError(['Level file must be a JSON object']);
+  if (file.version !== LEVEL_FORMAT_VERSION) {
+    throw new LevelValidationError([`Unsupported level format version ${file.version}; expected ${LEVEL_FORMAT_VERSION}`]);
+  }
+  if (file.grid === undefined && file.ascii === undefined) {
+    throw new LevelValidationError(['Level file needs either a "grid" or an "ascii" field']);
+  }
+  // Missing ones are left for validateLevel to report, so a file without them can still be loaded for repair
+  if ((file.id !== undefined && typeof file.id !== 'string') || (file.name !== undefined && typeof file.name !== 'string')) {
+    throw new LevelValidationError(['"id" and "name" must be strings']);
+  }
+
+  let grid: number[][];
+  if (file.grid !== undefined) {
+    if (!isGridShape(file.grid)) throw new LevelValidationError(['"grid" must be a non-empty array of rows of tile numbers']);
+    grid = file.grid;
+  } else {
+    const rows = typeof file.ascii === 'string' ? file.ascii.split(/\r?\n/) : file.ascii;
+    if (!Array.isArray(rows) || rows.length === 0 || rows.some(row => typeof row !== 'string')) {
+      throw new LevelValidationError(['"ascii" must be a string or a non-empty array of row strings']);
+    }
+    grid = parseAscii(rows);
+  }
+
+  const level: LevelDefinition = {
+    id: file.id ?? '',
+    name: file.name ?? '',
+    grid,
+    palette: file.palette,
+    rules: file.rules,
+  };
+
+  const problems = validate ? validateLevel(level) : [];
+  if (problems.length > 0) throw new LevelValidationError(problems);
+  return level;
+}
+
+export function serializeLevel(level: LevelDefinition, format: 'grid' | 'ascii' = 'ascii'): string {
+  const file: LevelFile = {
+    version: LEVEL_FORMAT_VERSION,
+    id: level.id,
+    name: level.name,
+    ...(format === 'ascii' ? { ascii: toAscii(level.grid) } : { grid: level.grid }),
+    palette: level.palette,
+    rules: level.rules,
+  };
+  return JSON.stringify(file, null, 2);
+}
@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TileType } from '../constants';
+import { LevelDefinition, validateGrid } from './levels';
+import { MazeGraph } from './mazeGraph';
+import { Random, hashSeed } from './rng';
+import { Position } from './types';
+
+export interface MazeGeneratorOptions {
+  seed: string;
+  width?: number; // Rounded to the nearest size of the form 4k+3, so the centre column is a corridor
+  height?: number; // Rounded up to an odd number
+  tunnels?: boolean;
+  pelletDensity?: number; // 0..1 share of corridor tiles that get a pellet; power pellets are always placed
+}
+
+export const MIN_MAZE_SIZE = 15;
+export const MAX_MAZE_SIZE = 39;
+
+const STEPS: Position[] = [{ x: 0, y: -1 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 1, y: 0 }];
+
+function clampSize(size: number): number {
+  return Math.max(MIN_MAZE_SIZE, Math.min(MAX_MAZE_SIZE, Math.round(size)));
+}
+
+function shuffle<T>(items: T[], rng: Random): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+// Mirror-symmetric maze on a corridor lattice: tiles with odd x and y are junctions, the tiles
+// between them are walls that get knocked through. Only the left half (with the centre column)
+// is decided; every change is mirrored to the right.
+class MazeBuilder {
+  readonly width: number;
+  readonly height: number;
+  readonly grid: number[][];
+  readonly reserved = new Set<number>(); // Ghost house and the ring around it: left alone by later passes
+  private readonly rng: Random;
+
+  constructor(width: number, height: number, rng: Random) {
+    this.width = width;
+    this.height = height;
+    this.rng = rng;
+    this.grid = Array.from({ length: height }, () => new Array<number>(width).fill(TileType.WALL));
+  }
+
+  get centerX(): number {
+    return (this.width - 1) / 2;
+  }
+
+  set(x: number, y: number, tile: TileType) {
+    this.grid[y][x] = tile;
+    this.grid[y][this.width - 1 - x] = tile;
+  }
+
+  isOpen(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height && this.grid[y][x] !== TileType.WALL;
+  }
+
+  isInterior(x: number, y: number): boolean {
+    return x > 0 && y > 0 && x < this.width - 1 && y < this.height - 1;
+  }
+
+  isReserved(x: number, y: number): boolean {
+    return this.reserved.has(y * this.width + x);
+  }
+
+  // Randomised depth-first spanning tree over the junctions of the left half
+  carveTree() {
+    const visited = new Set<number>();
+    const stack: Position[] = [{ x: 1, y: 1 }];
+    visited.add(this.width + 1);
+    this.set(1, 1, TileType.EMPTY);
+
+    while (stack.length > 0) {
+      const cell = stack[stack.length - 1];
+      const next = shuffle([...STEPS], this.rng)
+        .map(step => ({ x: cell.x + step.x * 2, y: cell.y + step.y * 2, step }))
+        .find(n => this.isInterior(n.x, n.y) && n.x <= this.centerX && !visited.has(n.y * this.width + n.x));
+
+      if (!next) {
+        stack.pop();
+        continue;
+      }
+      visited.add(next.y * this.width + next.x);
+      this.set(cell.x + next.step.x, cell.y + next.step.y, TileType.EMPTY);
+      this.set(next.x, next.y, TileType.EMPTY);
+      stack.push({ x: next.x, y: next.y });
+    }
+  }
+
+  // A walled box around the GHOST_START tiles with a door on top, inside an open ring
+  carveGhostHouse(centerY: number) {
+    const cx = this.centerX;
+    for (let y = centerY - 2; y <= centerY + 2; y++) {
+      for (let x = cx - 4; x <= cx; x++) {
+        const ring = y === centerY - 2 || y === centerY + 2 || x === cx - 4;
+        const box = y === centerY - 1 || y === centerY + 1 || x === cx - 3;
+        this.set(x, y, ring ? TileType.EMPTY : box ? TileType.WALL : TileType.EMPTY);
+        this.reserved.add(y * this.width + x);
+        this.reserved.add(y * this.width + this.width - 1 - x);
+      }
+    }
+    this.set(cx, centerY - 1, TileType.GHOST_DOOR);
+    this.set(cx - 1, centerY, TileType.GHOST_START);
+    this.set(cx, centerY, TileType.GHOST_START);
+  }
+
+  // Side exits on the junction row nearest the middle that misses the ghost house
+  carveTunnel(houseY: number) {
+    const middle = Math.floor(this.height / 2);
+    const rows = Array.from({ length: this.height }, (_, y) => y)
+      .filter(y => y % 2 === 1 && Math.abs(y - houseY) > 2)
+      .sort((a, b) => Math.abs(a - middle) - Math.abs(b - middle));
+    if (rows.length === 0) return;
+    this.set(0, rows[0], TileType.TUNNEL);
+  }
+
+  // Knock a wall next to every dead end until none are left
+  removeDeadEnds() {
+    for (;;) {
+      const graph = new MazeGraph(this.grid);
+      const deadEnd = this.openTiles().find(p => !this.isReserved(p.x, p.y) && graph.neighbours(p.x, p.y).length <= 1);
+      if (!deadEnd) return;
+
+      const walls = STEPS
+        .map(step => ({ wall: { x: deadEnd.x + step.x, y: deadEnd.y + step.y }, beyond: { x: deadEnd.x + step.x * 2, y: deadEnd.y + step.y * 2 } }))
+        .filter(({ wall }) => this.isInterior(wall.x, wall.y) && !this.isReserved(wall.x, wall.y) && !this.isOpen(wall.x, wall.y));
+      const throughs = walls.filter(({ beyond }) => this.isOpen(beyond.x, beyond.y));
+      const choice = throughs.length > 0 ? this.rng.pick(throughs) : walls.length > 0 ? this.rng.pick(walls) : null;
+      if (!choice) return; // Nothing left to knock; validation will report it
+      this.set(choice.wall.x, choice.wall.y, TileType.EMPTY);
+    }
+  }
+
+  // Knock walls between separate areas until every open tile can be reached from `from`,
+  // going through the ghost house door as the ghosts do
+  connect(from: Position) {
+    for (;;) {
+      const graph = new MazeGraph(this.grid, { ghostDoors: true });
+      const field = graph.distanceField(from.x, from.y);
+      const reachable = (x: number, y: number) => this.isOpen(x, y) && field[y * this.width + x] >= 0;
+      if (this.openTiles().every(p => reachable(p.x, p.y))) return;
+
+      const bridges: Position[] = [];
+      for (let y = 1; y < this.height - 1; y++) {
+        for (let x = 1; x < this.width - 1; x++) {
+          if (this.isOpen(x, y) || this.isReserved(x, y)) continue;
+          for (const step of [STEPS[0], STEPS[2]]) {
+            const a = { x: x + step.x, y: y + step.y };
+            const b = { x: x - step.x, y: y - step.y };
+            const split = reachable(a.x, a.y) !== reachable(b.x, b.y);
+            if (split && this.isOpen(a.x, a.y) && this.isOpen(b.x, b.y)) bridges.push({ x, y });
+          }
+        }
+      }
+      if (bridges.length === 0) return;
+      const bridge = this.rng.pick(bridges);
+      this.set(bridge.x, bridge.y, TileType.EMPTY);
+    }
+  }
+
+  openTiles(): Position[] {
+    const tiles: Position[] = [];
+    this.grid.forEach((row, y) => row.forEach((tile, x) => {
+      if (tile !== TileType.WALL) tiles.push({ x, y });
+    }));
+    return tiles;
+  }
+
+  // Nearest open, unreserved tile to a point, searching the left half
+  nearestOpen(target: Position): Position | null {
+    let best: Position | null = null;
+    let bestDist = Infinity;
+    for (const p of this.openTiles()) {
+      if (p.x > this.centerX || this.isReserved(p.x, p.y) || this.grid[p.y][p.x] !== TileType.EMPTY) continue;
+      const dist = Math.abs(p.x - target.x) + Math.abs(p.y - target.y);
+      if (dist < bestDist) {
+        best = p;
+        bestDist = dist;
+      }
+    }
+    return best;
+  }
+}
+
+// Same seed and options always give the same maze, so a seed can be shared
+export function generateMaze(options: MazeGeneratorOptions): LevelDefinition {
+  const { seed, tunnels = true, pelletDensity = 1 } = options;
+  const width = Math.round((clampSize(options.width ?? 19) - 3) / 4) * 4 + 3;
+  const height = clampSize(options.height ?? 21) | 1;
+  const rng = new Random(hashSeed(`${seed}:${width}x${height}:${tunnels}:${pelletDensity}`));
+  const maze = new MazeBuilder(width, height, rng);
+  const cx = maze.centerX;
+
+  maze.carveTree();
+  // House a little above the middle, leaving room below for Pacman's start
+  const houseY = Math.max(3, Math.floor(height / 2) - 1);
+  maze.carveGhostHouse(houseY);
+  if (tunnels) maze.carveTunnel(houseY);
+  maze.removeDeadEnds();
+  maze.connect({ x: cx, y: houseY - 2 });
+
+  // Pacman starts on the centre column, on the first junction below the house
+  let startY = houseY + 3;
+  while (startY < height - 1 && !(maze.isOpen(cx, startY) && !maze.isReserved(cx, startY))) startY++;
+  if (startY >= height - 1) {
+    startY = houseY + 3;
+    maze.set(cx, startY, TileType.EMPTY);
+    maze.connect({ x: cx, y: houseY - 2 });
+  }
+  maze.grid[startY][cx] = TileType.PACMAN_START;
+
+  // Power pellets near the corners, then pellets; both decided on the left half and mirrored
+  for (const corner of [{ x: 1, y: 2 }, { x: 1, y: height - 3 }]) {
+    const spot = maze.nearestOpen(corner);
+    if (spot) maze.set(spot.x, spot.y, TileType.POWER_PELLET);
+  }
+  const density = Math.max(0, Math.min(1, pelletDensity));
+  for (const p of maze.openTiles()) {
+    if (p.x > cx || maze.isReserved(p.x, p.y) || maze.grid[p.y][p.x] !== TileType.EMPTY) continue;
+    if (rng.next() < density) maze.set(p.x, p.y, TileType.PELLET);
+  }
+
+  const problems = validateGrid(maze.grid);
+  if (problems.length > 0) throw new Error(`Generated maze is invalid: ${problems.join('; ')}`);
+
+  const slug = seed.toLowerCase().replace(/[^\w-]+/g, '-').slice(0, 32) || 'maze';
+  return {
+    id: `random-${slug}`,
+    name: `Random ${seed}`,
+    grid: maze.grid,
+  };
+}
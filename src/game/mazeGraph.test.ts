@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseAscii } from './levels';
+import { MazeGraph } from './mazeGraph';
+
+// The wall in the middle of the top row is gone round through the bottom corridor, or the tunnel
+const MAZE = parseAscii([
+  '=...#...=',
+  '#.#.#.#.#',
+  '#.......#',
+  '####-####',
+]);
+
+describe('MazeGraph', () => {
+  const graph = new MazeGraph(MAZE);
+
+  it('finds shortest paths along the corridors', () => {
+    expect(graph.distance({ x: 1, y: 0 }, { x: 7, y: 0 })).toBe(3);
+    expect(graph.distance({ x: 3, y: 0 }, { x: 5, y: 0 })).toBe(6);
+    expect(graph.nextDirection({ x: 3, y: 0 }, { x: 5, y: 0 })).toBe('DOWN');
+    expect(graph.path({ x: 3, y: 0 }, { x: 5, y: 0 })).toHaveLength(6);
+  });
+
+  it('wraps through tunnels', () => {
+    expect(graph.nextDirection({ x: 0, y: 0 }, { x: 8, y: 0 })).toBe('LEFT');
+  });
+
+  it('keeps Pac-Man out of the ghost house door but lets ghosts through', () => {
+    expect(graph.isWalkable(4, 3)).toBe(false);
+    expect(new MazeGraph(MAZE, { ghostDoors: true }).isWalkable(4, 3)).toBe(true);
+  });
+
+  it('reports unreachable targets', () => {
+    expect(graph.distance({ x: 1, y: 0 }, { x: 4, y: 0 })).toBe(Infinity);
+    expect(graph.nextDirection({ x: 1, y: 0 }, { x: 4, y: 0 })).toBeNull();
+    expect(graph.path({ x: 1, y: 0 }, { x: 4, y: 0 })).toEqual([]);
+  });
+
+  it('does not let a target off the grid stand in for the tile with the same index', () => {
+    // One left of the second row has the index of the tunnel at the end of the first
+    const offGrid = new MazeGraph(MAZE);
+    expect(offGrid.distance({ x: 7, y: 0 }, { x: -1, y: 1 })).toBe(Infinity);
+    expect(offGrid.distance({ x: 7, y: 0 }, { x: 8, y: 0 })).toBe(1);
+
+    const tunnel = new MazeGraph(MAZE);
+    expect(tunnel.distance({ x: 7, y: 0 }, { x: 8, y: 0 })).toBe(1);
+    expect(tunnel.distance({ x: 7, y: 0 }, { x: -1, y: 1 })).toBe(Infinity);
+    expect(tunnel.path({ x: 7, y: 0 }, { x: 9, y: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TileType } from '../constants';
+import { Direction, Position } from './types';
+
+const DIRECTIONS: NonNullable<Direction>[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+export interface Neighbour extends Position {
+  dir: NonNullable<Direction>;
+}
+
+export interface MazeGraphOptions {
+  ghostDoors?: boolean; // Treat ghost house doors as open, both ways, as the ghosts' own graph does
+}
+
+// Walkable tiles of a maze as a graph, with BFS distance fields cached per target tile.
+// Walls never change during a run, so one graph serves the whole game.
+export class MazeGraph {
+  readonly width: number;
+  readonly height: number;
+  private readonly walkable: boolean[];
+  private readonly tunnel: boolean[];
+  private readonly fields = new Map<number, Int32Array>();
+
+  constructor(map: readonly (readonly number[])[], { ghostDoors = false }: MazeGraphOptions = {}) {
+    this.height = map.length;
+    this.width = map[0]?.length ?? 0;
+    this.walkable = [];
+    this.tunnel = [];
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        this.walkable.push(map[y][x] !== TileType.WALL && (ghostDoors || map[y][x] !== TileType.GHOST_DOOR));
+        this.tunnel.push(map[y][x] === TileType.TUNNEL);
+      }
+    }
+  }
+
+  isWalkable(x: number, y: number): boolean {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return false;
+    return this.walkable[y * this.width + x];
+  }
+
+  // Same movement rules as Entity.canMove, including wrapping out of tunnel tiles
+  neighbours(x: number, y: number): Neighbour[] {
+    const result: Neighbour[] = [];
+    for (const dir of DIRECTIONS) {
+      let nx = x + (dir === 'LEFT' ? -1 : dir === 'RIGHT' ? 1 : 0);
+      let ny = y + (dir === 'UP' ? -1 : dir === 'DOWN' ? 1 : 0);
+      if (nx < 0 || ny < 0 || nx >= this.width || ny >= this.height) {
+        if (!this.tunnel[y * this.width + x]) continue;
+        nx = (nx + this.width) % this.width;
+        ny = (ny + this.height) % this.height;
+      }
+      if (this.isWalkable(nx, ny)) result.push({ x: nx, y: ny, dir });
+    }
+    return result;
+  }
+
+  // Steps from every tile to the target; -1 where the target cannot be reached
+  distanceField(targetX: number, targetY: number): Int32Array {
+    // Nothing reaches a target off the grid; its key would be some real tile's, so it is not cached
+    if (targetX < 0 || targetY < 0 || targetX >= this.width || targetY >= this.height) {
+      return new Int32Array(this.width * this.height).fill(-1);
+    }
+    const key = targetY * this.width + targetX;
+    const cached = this.fields.get(key);
+    if (cached) return cached;
+
+    const field = new Int32Array(this.width * this.height).fill(-1);
+    if (this.isWalkable(targetX, targetY)) {
+      // Searching outwards from the target treats every edge as two-way
+      const queue: number[] = [key];
+      field[key] = 0;
+      for (let head = 0; head < queue.length; head++) {
+        const current = queue[head];
+        const cx = current % this.width;
+        const cy = Math.floor(current / this.width);
+        for (const n of this.neighbours(cx, cy)) {
+          const index = n.y * this.width + n.x;
+          if (field[index] !== -1) continue;
+          field[index] = field[current] + 1;
+          queue.push(index);
+        }
+      }
+    }
+
+    this.fields.set(key, field);
+    return field;
+  }
+
+  distance(from: Position, to: Position): number {
+    const d = this.distanceField(to.x, to.y)[from.y * this.width + from.x];
+    return d === undefined || d < 0 ? Infinity : d;
+  }
+
+  // First move of a shortest path, or null when already there or unreachable.
+  // `allowed` restricts the choice, e.g. to exclude reversing.
+  nextDirection(from: Position, to: Position, allowed?: Direction[]): Direction {
+    const field = this.distanceField(to.x, to.y);
+    if (field[from.y * this.width + from.x] <= 0) return null;
+
+    let best: Direction = null;
+    let bestDist = Infinity;
+    for (const n of this.neighbours(from.x, from.y)) {
+      if (allowed && !allowed.includes(n.dir)) continue;
+      const d = field[n.y * this.width + n.x];
+      if (d >= 0 && d < bestDist) {
+        best = n.dir;
+        bestDist = d;
+      }
+    }
+    return best;
+  }
+
+  path(from: Position, to: Position): Position[] {
+    const field = this.distanceField(to.x, to.y);
+    const path: Position[] = [];
+    let current = { x: from.x, y: from.y };
+    let dist = field[current.y * this.width + current.x];
+    if (dist < 0) return path;
+
+    while (dist > 0) {
+      const next = this.neighbours(current.x, current.y).find(n => field[n.y * this.width + n.x] === dist - 1);
+      if (!next) break;
+      current = { x: next.x, y: next.y };
+      dist--;
+      path.push(current);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameRules } from './rules';
+
+export type GameModeId = 'classic' | 'endless' | 'time-attack' | 'survival';
+
+export interface GameMode {
+  id: GameModeId;
+  label: string;
+  description: string;
+  rules: Partial<GameRules>; // Applied over the difficulty preset; a level's own overrides still win
+  levelSequence: boolean; // Clearing a board wins it and moves on; otherwise an empty board refills and play goes on
+  timeLimitSeconds: number | null; // The run ends when this much play time has passed
+  ultimateGhostFromStart: boolean;
+  ghostSpeedup: { everySeconds: number; step: number; max: number } | null; // Ghosts speed up the longer the run lasts
+  survivalPointsPerSecond: number;
+}
+
+export const GAME_MODES: Record<GameModeId, GameMode> = {
+  classic: {
+    id: 'classic',
+    label: 'Classic',
+    description: 'Clear every pellet on each board. Eaten pellets stay eaten.',
+    rules: { winScore: null, pelletRespawnSeconds: null },
+    levelSequence: true,
+    timeLimitSeconds: null,
+    ultimateGhostFromStart: false,
+    ghostSpeedup: null,
+    survivalPointsPerSecond: 0,
+  },
+  endless: {
+    id: 'endless',
+    label: 'Endless',
+    description: 'Pellets keep coming back and the ghosts keep getting faster. Score as much as you can.',
+    rules: { winScore: null },
+    levelSequence: false,
+    timeLimitSeconds: null,
+    ultimateGhostFromStart: false,
+    ghostSpeedup: { everySeconds: 30, step: 0.25, max: 1.5 },
+    survivalPointsPerSecond: 0,
+  },
+  'time-attack': {
+    id: 'time-attack',
+    label: 'Time Attack',
+    description: 'Two minutes on the clock. Score as much as you can before it runs out.',
+    rules: { winScore: null },
+    levelSequence: false,
+    timeLimitSeconds: 120,
+    ultimateGhostFromStart: false,
+    ghostSpeedup: null,
+    survivalPointsPerSecond: 0,
+  },
+  survival: {
+    id: 'survival',
+    label: 'Survival',
+    description: 'The Ultimate Ghost hunts you from the start. Every second alive is worth points.',
+    rules: { winScore: null, mergeScore: null },
+    levelSequence: false,
+    timeLimitSeconds: null,
+    ultimateGhostFromStart: true,
+    ghostSpeedup: null,
+    survivalPointsPerSecond: 10,
+  },
+};
+
+export function isGameModeId(id: unknown): id is GameModeId {
+  return typeof id === 'string' && Object.hasOwn(GAME_MODES, id);
+}
+
+// The rules a run is started with: the difficulty preset with the mode's changes on top
+export function modeRules(mode: GameModeId, base: GameRules): GameRules {
+  return { ...base, ...GAME_MODES[mode].rules };
+}
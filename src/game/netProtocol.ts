@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TILE_SIZE } from '../constants';
+import { Entity, Ghost, GhostMode, UltimateGhost } from './entities';
+import { BonusFruit } from './fruit';
+import { LevelDefinition } from './levels';
+import { SimulationState } from './simulation';
+import { Direction, GameStatus, ScorePopup } from './types';
+
+// Messages between the online game server (server/gameServer.ts) and its clients, sent as JSON text
+
+export const NET_PROTOCOL_VERSION = 1;
+export const NET_PATH = '/play';
+export const SNAPSHOT_EVERY_TICKS = 3; // 20 snapshots a second
+
+// Race: each player gets their own copy of the board and the first to clear it wins.
+// Shared: both Pac-Men play one board together, and the higher scorer wins.
+export type RoomMode = 'race' | 'shared';
+export const ROOM_MODES: RoomMode[] = ['race', 'shared'];
+export const ROOM_SIZE = 2;
+
+export type ClientMessage =
+  | { type: 'create'; version: number; name: string; mode: RoomMode }
+  | { type: 'join'; version: number; name: string; room: string }
+  | { type: 'input'; seq: number; direction: NonNullable<Direction> }
+  | { type: 'leave' };
+
+export interface RoomResult {
+  winner: number | null; // Player index, or null for a draw
+  scores: number[];
+  reason: 'cleared' | 'caught' | 'finished' | 'left';
+}
+
+export type ServerMessage =
+  | { type: 'joined'; room: string; mode: RoomMode; player: number; level: LevelDefinition }
+  | { type: 'lobby'; players: string[] }
+  | { type: 'start'; seed: number }
+  | { type: 'snapshot'; tick: number; boards: BoardSnapshot[]; acks: number[] }
+  | { type: 'end'; result: RoomResult }
+  | { type: 'error'; message: string };
+
+export interface ActorSnapshot {
+  x: number;
+  y: number;
+  direction: Direction;
+  nextDirection: Direction;
+  speed: number;
+}
+
+export interface GhostSnapshot extends ActorSnapshot {
+  mode: GhostMode;
+  isMerging: boolean;
+  merged: boolean;
+}
+
+// Everything a client needs to draw one board
+export interface BoardSnapshot {
+  tick: number;
+  status: GameStatus;
+  score: number;
+  playerScores: number[];
+  lives: number;
+  readyTicks: number;
+  dyingTicks: number;
+  frightenedTicks: number;
+  pelletsLeft: number;
+  map: number[][];
+  pacmen: ActorSnapshot[];
+  ghosts: GhostSnapshot[];
+  ultimateGhost: (ActorSnapshot & { stunnedTicks: number }) | null;
+  fruit: BonusFruit | null;
+  popups: ScorePopup[];
+}
+
+function actorSnapshot({ x, y, direction, nextDirection, speed }: Readonly<Entity>): ActorSnapshot {
+  return { x, y, direction, nextDirection, speed };
+}
+
+export function snapshotBoard(state: SimulationState): BoardSnapshot {
+  const ug = state.ultimateGhost;
+  return {
+    tick: state.tick,
+    status: state.status,
+    score: state.score,
+    playerScores: [...state.playerScores],
+    lives: state.lives,
+    readyTicks: state.readyTicks,
+    dyingTicks: state.dyingTicks,
+    frightenedTicks: state.frightenedTicks,
+    pelletsLeft: state.pelletsLeft,
+    map: state.map.map(row => [...row]),
+    pacmen: state.pacmen.map(actorSnapshot),
+    ghosts: state.ghosts.map(ghost => ({ ...actorSnapshot(ghost), mode: ghost.mode, isMerging: ghost.isMerging, merged: ghost.merged })),
+    ultimateGhost: ug ? { ...actorSnapshot(ug), stunnedTicks: ug.stunnedTicks } : null,
+    fruit: state.fruit ? { ...state.fruit } : null,
+    popups: state.popups.map(popup => ({ ...popup })),
+  };
+}
+
+// Rebuild live entities from a snapshot, e.g. to draw them or to predict ahead from them
+export function restoreActor<T extends Entity>(actor: T, snapshot: ActorSnapshot): T {
+  actor.x = snapshot.x;
+  actor.y = snapshot.y;
+  actor.gridX = Math.floor(snapshot.x / TILE_SIZE);
+  actor.gridY = Math.floor(snapshot.y / TILE_SIZE);
+  actor.direction = snapshot.direction;
+  actor.nextDirection = snapshot.nextDirection;
+  actor.speed = snapshot.speed;
+  return actor;
+}
+
+export function restorePacman(snapshot: ActorSnapshot): Entity {
+  return restoreActor(new Entity(0, 0), snapshot);
+}
+
+export function restoreGhost(snapshot: GhostSnapshot): Ghost {
+  const ghost = restoreActor(new Ghost(0, 0), snapshot);
+  ghost.mode = snapshot.mode;
+  ghost.isMerging = snapshot.isMerging;
+  ghost.merged = snapshot.merged;
+  return ghost;
+}
+
+export function restoreUltimateGhost(snapshot: ActorSnapshot & { stunnedTicks: number }): UltimateGhost {
+  const ug = restoreActor(new UltimateGhost(0, 0), snapshot);
+  ug.stunnedTicks = snapshot.stunnedTicks;
+  return ug;
+}
+
+const DIRECTIONS = new Set<Direction>(['UP', 'DOWN', 'LEFT', 'RIGHT']);
+
+// Anything that is not a well-formed client message comes back as null
+export function parseClientMessage(text: string): ClientMessage | null {
+  let message: ClientMessage;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!message || typeof message !== 'object') return null;
+
+  switch (message.type) {
+    case 'create':
+      return typeof message.name === 'string' && ROOM_MODES.includes(message.mode) ? message : null;
+    case 'join':
+      return typeof message.name === 'string' && typeof message.room === 'string' ? message : null;
+    case 'input':
+      return Number.isInteger(message.seq) && DIRECTIONS.has(message.direction) ? message : null;
+    case 'leave':
+      return message;
+    default:
+      return null;
+  }
+}
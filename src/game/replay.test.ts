@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { TICKS_PER_SECOND } from '../constants';
+import { LEVELS } from './levelPack';
+import { REPLAY_FORMAT_VERSION, Replay, ReplayFormatError, ReplayPlayer, ReplayRecorder, parseReplay, runReplay, serializeReplay } from './replay';
+import { Random } from './rng';
+import { DEFAULT_RULES } from './rules';
+import { GameSimulation, SimulationOptions } from './simulation';
+import { Direction } from './types';
+
+const DIRECTIONS: NonNullable<Direction>[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+// Plays one board with every player turning at random every so often, recording it as the game does
+function record(options: SimulationOptions, inputSeed: number, maxTicks = 5 * 60 * TICKS_PER_SECOND): Replay {
+  const sim = new GameSimulation(options);
+  const recorder = new ReplayRecorder();
+  const inputs = new Random(inputSeed);
+  const players = options.players === undefined || options.players === 'solo' ? 1 : 2;
+  recorder.beginSegment(sim.getState(), options.startScore ?? 0);
+  while (sim.getState().status === 'PLAYING' && sim.getState().tick < maxTicks) {
+    const directions = Array.from({ length: players }, () => inputs.int(20) === 0 ? inputs.pick(DIRECTIONS) : null);
+    sim.step({ directions });
+    recorder.record(sim.getState().tick, directions);
+  }
+  return recorder.finish(sim.getState());
+}
+
+function formatError(input: unknown): string | null {
+  try {
+    parseReplay(input as Replay);
+  } catch (e) {
+    if (e instanceof ReplayFormatError) return e.message;
+    throw e;
+  }
+  return null;
+}
+
+describe('replays', () => {
+  const replay = record({ level: LEVELS[0], seed: 21 }, 4);
+
+  it('play back to the score and outcome that were recorded', () => {
+    expect(replay.status).not.toBe('PLAYING');
+    expect(runReplay(replay)).toEqual({ score: replay.finalScore, status: replay.status, ticks: replay.segments[0].ticks });
+  });
+
+  it('play back two-player runs with each player\'s inputs', () => {
+    const versus = record({ level: LEVELS[1], players: 'versus', seed: 8 }, 5, 60 * TICKS_PER_SECOND);
+    expect(versus.segments[0].inputs.some(input => input[2] === 1)).toBe(true);
+    expect(runReplay(versus).score).toBe(versus.finalScore);
+  });
+
+  it('seek to the same state as playing through', () => {
+    const target = Math.floor(replay.segments[0].ticks / 2);
+    const played = new ReplayPlayer(replay);
+    while (played.position < target) played.step();
+
+    const sought = new ReplayPlayer(replay);
+    sought.seek(replay.segments[0].ticks);
+    sought.seek(target);
+    expect(sought.position).toBe(target);
+    expect(sought.getState()).toEqual(played.getState());
+  });
+
+  it('survive being written out and read back', () => {
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+  });
+});
+
+describe('parseReplay', () => {
+  const replay = record({ level: LEVELS[0], seed: 2 }, 3, 10 * TICKS_PER_SECOND);
+
+  it('reads version 1 replays as one life of Classic on Normal without fruit', () => {
+    const { mode, players, ...rest } = replay;
+    const v1 = { ...rest, version: 1, segments: replay.segments.map(({ lives, rules, ...segment }) => segment) };
+
+    const migrated = parseReplay(JSON.stringify(v1));
+    expect(migrated).toMatchObject({ version: REPLAY_FORMAT_VERSION, mode: 'classic', players: 'solo' });
+    expect(migrated.segments[0].lives).toBe(1);
+    expect(migrated.segments[0].rules).toEqual({ ...DEFAULT_RULES, fruitSeconds: null });
+  });
+
+  it('rejects formats that never shipped', () => {
+    for (const version of [2, 3, 4, 5, REPLAY_FORMAT_VERSION + 1]) {
+      expect(formatError({ ...replay, version })).toBe(`Unsupported replay version ${version}; expected ${REPLAY_FORMAT_VERSION}`);
+    }
+  });
+
+  it('rejects anything that is not a whole replay', () => {
+    expect(formatError('{')).toMatch(/^Replay file is not valid JSON/);
+    expect(formatError('7')).toBe('Replay file must be a JSON object');
+    expect(formatError({ ...replay, mode: 'tag' })).toBe('Unknown game mode tag');
+    expect(formatError({ ...replay, players: 'trio' })).toBe('Unknown player mode trio');
+    expect(formatError({ ...replay, segments: [] })).toBe('Replay has no recorded levels');
+    expect(formatError({ ...replay, segments: [{ ...replay.segments[0], seed: 'x' }] }))
+      .toBe('Replay segment is missing its level, seed, lives, rules, tick count or inputs');
+  });
+
+  it('rejects rules that are missing or out of range', () => {
+    const { ghostSpeed, ...incomplete } = replay.segments[0].rules;
+    expect(formatError({ ...replay, segments: [{ ...replay.segments[0], rules: incomplete }] }))
+      .toBe("Replay has invalid rules: Missing rule 'ghostSpeed'");
+    expect(formatError({ ...replay, segments: [{ ...replay.segments[0], rules: { ...replay.segments[0].rules, ghostSpeed: -1 } }] }))
+      .toMatch(/^Replay has invalid rules: /);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LevelDefinition } from './levels';
+import { GameModeId, isGameModeId } from './modes';
+import { DEFAULT_RULES, GameRules, validateRules } from './rules';
+import { GameSimulation, SimulationState } from './simulation';
+import { Direction, GameStatus, PlayerMode } from './types';
+
+export const REPLAY_FORMAT_VERSION = 6;
+
+// One board of a run: everything needed to rebuild its simulation, plus the inputs fed to it
+export interface ReplaySegment {
+  level: LevelDefinition;
+  levelNumber: number;
+  startScore: number;
+  startPlayerScores?: number[]; // Co-op only: how startScore was split between the players
+  lives: number;
+  rules: GameRules;
+  seed: number;
+  ticks: number;
+  inputs: ReplayInput[]; // Only ticks that had input
+}
+
+// The player index is left out for player one, which keeps one-player replays as they were
+export type ReplayInput = [tick: number, direction: NonNullable<Direction>, player?: number];
+
+export interface Replay {
+  version: number;
+  recordedAt: string;
+  mode: GameModeId;
+  players: PlayerMode;
+  finalScore: number;
+  status: GameStatus;
+  segments: ReplaySegment[];
+}
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+// Collects seeds and per-tick inputs while a run is played
+export class ReplayRecorder {
+  private segments: ReplaySegment[];
+
+  // A run picked up from a save carries on recording after the segments it already has
+  constructor(segments: ReplaySegment[] = []) {
+    this.segments = segments.map(segment => ({ ...segment, inputs: [...segment.inputs] }));
+  }
+
+  beginSegment(state: SimulationState, startScore: number) {
+    this.segments.push({
+      level: state.level,
+      levelNumber: state.levelNumber,
+      startScore,
+      ...(state.players === 'co-op' && { startPlayerScores: [...state.playerScores] }),
+      lives: state.lives,
+      rules: state.rules,
+      seed: state.seed,
+      ticks: 0,
+      inputs: [],
+    });
+  }
+
+  // Call after each step with the tick it produced and the input that was applied, one direction per player
+  record(tick: number, directions: Direction[]) {
+    const segment = this.segments[this.segments.length - 1];
+    if (!segment) return;
+    segment.ticks = tick;
+    directions.forEach((direction, player) => {
+      if (direction) segment.inputs.push(player === 0 ? [tick, direction] : [tick, direction, player]);
+    });
+  }
+
+  finish(state: SimulationState): Replay {
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      recordedAt: new Date().toISOString(),
+      mode: state.mode,
+      players: state.players,
+      finalScore: state.score,
+      status: state.status,
+      segments: this.segments.map(segment => ({ ...segment, inputs: [...segment.inputs] })),
+    };
+  }
+}
+
+export function createSegmentSimulation(segment: ReplaySegment, mode: GameModeId, players: PlayerMode = 'solo'): GameSimulation {
+  return new GameSimulation({
+    mode,
+    players,
+    level: segment.level,
+    levelNumber: segment.levelNumber,
+    startScore: segment.startScore,
+    startPlayerScores: segment.startPlayerScores,
+    lives: segment.lives,
+    rules: segment.rules,
+    seed: segment.seed,
+  });
+}
+
+// Deterministic playback with random access: seeking rebuilds the board and fast-forwards to the tick
+export class ReplayPlayer {
+  readonly replay: Replay;
+  readonly totalTicks: number;
+  private segmentIndex: number = 0;
+  private sim: GameSimulation;
+  private inputs: Map<number, Direction[]> = new Map();
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.totalTicks = replay.segments.reduce((sum, segment) => sum + segment.ticks, 0);
+    this.sim = this.loadSegment(0);
+  }
+
+  get position(): number {
+    let ticks = this.sim.getState().tick;
+    for (let i = 0; i < this.segmentIndex; i++) ticks += this.replay.segments[i].ticks;
+    return ticks;
+  }
+
+  get segment(): number {
+    return this.segmentIndex;
+  }
+
+  get finished(): boolean {
+    const lastSegment = this.segmentIndex === this.replay.segments.length - 1;
+    return this.position >= this.totalTicks || (lastSegment && this.sim.getState().status !== 'PLAYING');
+  }
+
+  getState(): SimulationState {
+    return this.sim.getState();
+  }
+
+  step() {
+    const segment = this.replay.segments[this.segmentIndex];
+    const state = this.sim.getState();
+
+    if (state.tick >= segment.ticks || state.status !== 'PLAYING') {
+      if (this.segmentIndex >= this.replay.segments.length - 1) return;
+      this.sim = this.loadSegment(this.segmentIndex + 1);
+      return;
+    }
+
+    const tick = state.tick + 1;
+    this.sim.step({ directions: this.inputs.get(tick) ?? [] });
+  }
+
+  seek(target: number) {
+    target = Math.max(0, Math.min(this.totalTicks, Math.floor(target)));
+
+    let index = 0;
+    let offset = 0;
+    while (index < this.replay.segments.length - 1 && target > offset + this.replay.segments[index].ticks) {
+      offset += this.replay.segments[index].ticks;
+      index++;
+    }
+
+    // Seeking forward within the current board can continue from here instead of restarting it
+    const local = target - offset;
+    if (index !== this.segmentIndex || local < this.sim.getState().tick) {
+      this.sim = this.loadSegment(index);
+    }
+    while (this.sim.getState().tick < local && this.sim.getState().status === 'PLAYING') this.step();
+  }
+
+  private loadSegment(index: number): GameSimulation {
+    const segment = this.replay.segments[index];
+    this.segmentIndex = index;
+    this.inputs = new Map();
+    for (const [tick, direction, player = 0] of segment.inputs) {
+      const directions = this.inputs.get(tick) ?? [];
+      directions[player] = direction;
+      this.inputs.set(tick, directions);
+    }
+    return createSegmentSimulation(segment, this.replay.mode, this.replay.players);
+  }
+}
+
+// Re-run a whole replay headlessly and report what it actually scores
+export function runReplay(replay: Replay): { score: number; status: GameStatus; ticks: number } {
+  const player = new ReplayPlayer(replay);
+  while (!player.finished) player.step();
+  const state = player.getState();
+  return { score: state.score, status: state.status, ticks: player.totalTicks };
+}
+
+const PLAYER_MODES: PlayerMode[] = ['solo', 'co-op', 'versus'];
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+// Accepts JSON text or an already-parsed object, e.g. a request body
+export function parseReplay(input: string | Replay): Replay {
+  let replay: Replay;
+  try {
+    replay = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch (e) {
+    throw new ReplayFormatError(`Replay file is not valid JSON: ${(e as Error).message}`);
+  }
+
+  if (!replay || typeof replay !== 'object') throw new ReplayFormatError('Replay file must be a JSON object');
+  // Version 1, the first replay format, predates lives, configurable rules, game modes, two players and bonus
+  // fruit: one life, what is now Normal, Classic, solo and no fruit
+  if (replay.version === 1 && Array.isArray(replay.segments)) {
+    replay = {
+      ...replay,
+      version: REPLAY_FORMAT_VERSION,
+      mode: 'classic',
+      players: 'solo',
+      segments: replay.segments.map(segment => ({ ...segment, lives: 1, rules: { ...DEFAULT_RULES, fruitSeconds: null } })),
+    };
+  }
+  if (replay.version !== REPLAY_FORMAT_VERSION) {
+    throw new ReplayFormatError(`Unsupported replay version ${replay.version}; expected ${REPLAY_FORMAT_VERSION}`);
+  }
+  if (!isGameModeId(replay.mode)) throw new ReplayFormatError(`Unknown game mode ${replay.mode}`);
+  if (!PLAYER_MODES.includes(replay.players)) throw new ReplayFormatError(`Unknown player mode ${replay.players}`);
+  if (!Array.isArray(replay.segments) || replay.segments.length === 0) {
+    throw new ReplayFormatError('Replay has no recorded levels');
+  }
+  for (const segment of replay.segments) {
+    if (!segment.level?.grid || !Number.isInteger(segment.seed) || !Number.isInteger(segment.lives) || !Number.isInteger(segment.ticks) || !Array.isArray(segment.inputs) || !segment.rules) {
+      throw new ReplayFormatError('Replay segment is missing its level, seed, lives, rules, tick count or inputs');
+    }
+    const missing = Object.keys(DEFAULT_RULES).filter(key => !(key in segment.rules));
+    const problems = [...missing.map(key => `Missing rule '${key}'`), ...validateRules(segment.rules)];
+    if (problems.length > 0) throw new ReplayFormatError(`Replay has invalid rules: ${problems[0]}`);
+  }
+  return replay;
+}
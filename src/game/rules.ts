@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Every tunable rule of a run. A difficulty preset gives the defaults; a level may override any of them.
+export interface GameRules {
+  winScore: number | null; // Points scored on a board that count as clearing it; null means eat every pellet
+  mergeScore: number | null; // Board points at which the ghosts merge; null disables merging
+  pelletRespawnSeconds: number | null; // null disables respawning
+  frightenedSeconds: number;
+  ghostSpeed: number; // Pixels per tick; Pac-Man moves at 2
+  ultimateGhostSpeed: number;
+  ghostCatchRadius: number; // Tiles between centres at which a ghost catches Pac-Man
+  ultimateGhostCatchRadius: number;
+  extraLifePoints: number | null; // An extra life each time the total score passes a multiple of this; null disables
+  fruitSeconds: number | null; // How long a bonus fruit waits to be eaten; null means no fruit
+}
+
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'custom';
+
+export const DIFFICULTIES: { id: Difficulty; label: string }[] = [
+  { id: 'easy', label: 'Easy' },
+  { id: 'normal', label: 'Normal' },
+  { id: 'hard', label: 'Hard' },
+  { id: 'custom', label: 'Custom' },
+];
+
+export const DEFAULT_RULES: GameRules = {
+  winScore: 1800,
+  mergeScore: 1500,
+  pelletRespawnSeconds: 5,
+  frightenedSeconds: 6,
+  ghostSpeed: 2,
+  ultimateGhostSpeed: 3,
+  ghostCatchRadius: 2 / 3,
+  ultimateGhostCatchRadius: 5 / 6,
+  extraLifePoints: 5000,
+  fruitSeconds: 10,
+};
+
+export const RULE_PRESETS: Record<Exclude<Difficulty, 'custom'>, GameRules> = {
+  easy: {
+    winScore: 1500,
+    mergeScore: null,
+    pelletRespawnSeconds: 8,
+    frightenedSeconds: 8,
+    ghostSpeed: 1.5,
+    ultimateGhostSpeed: 2.5,
+    ghostCatchRadius: 0.5,
+    ultimateGhostCatchRadius: 2 / 3,
+    extraLifePoints: 3000,
+    fruitSeconds: 12,
+  },
+  normal: DEFAULT_RULES,
+  hard: {
+    winScore: 2400,
+    mergeScore: 1000,
+    pelletRespawnSeconds: 4,
+    frightenedSeconds: 4,
+    ghostSpeed: 2.5,
+    ultimateGhostSpeed: 3.5,
+    ghostCatchRadius: 0.75,
+    ultimateGhostCatchRadius: 0.9,
+    extraLifePoints: 10000,
+    fruitSeconds: 8,
+  },
+};
+
+// Limits the settings panel enforces. Speeds above half a tile per tick would skip tile centres.
+export const RULE_LIMITS: Record<keyof GameRules, { min: number; max: number; step: number }> = {
+  winScore: { min: 100, max: 100000, step: 100 },
+  mergeScore: { min: 100, max: 100000, step: 100 },
+  pelletRespawnSeconds: { min: 1, max: 600, step: 1 },
+  frightenedSeconds: { min: 0, max: 30, step: 0.5 },
+  ghostSpeed: { min: 0.5, max: 8, step: 0.25 },
+  ultimateGhostSpeed: { min: 0.5, max: 8, step: 0.25 },
+  ghostCatchRadius: { min: 0.1, max: 1.5, step: 0.05 },
+  ultimateGhostCatchRadius: { min: 0.1, max: 1.5, step: 0.05 },
+  extraLifePoints: { min: 1000, max: 1000000, step: 1000 },
+  fruitSeconds: { min: 1, max: 60, step: 1 },
+};
+
+const NULLABLE = new Set<keyof GameRules>(['winScore', 'mergeScore', 'pelletRespawnSeconds', 'extraLifePoints', 'fruitSeconds']);
+
+export function rulesFor(difficulty: Difficulty, custom: GameRules): GameRules {
+  return difficulty === 'custom' ? custom : RULE_PRESETS[difficulty];
+}
+
+// A level's own overrides win over the difficulty preset
+export function resolveRules(base: GameRules, overrides: Partial<GameRules> = {}): GameRules {
+  return { ...base, ...overrides };
+}
+
+// Returns every problem found; also used for the partial overrides in level files
+export function validateRules(rules: Partial<GameRules>): string[] {
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(rules) as [keyof GameRules, unknown][]) {
+    const limits = RULE_LIMITS[key];
+    if (!limits) {
+      problems.push(`Unknown rule '${key}'`);
+    } else if (value === null) {
+      if (!NULLABLE.has(key)) problems.push(`Rule '${key}' cannot be turned off`);
+    } else if (typeof value !== 'number' || !(value >= limits.min && value <= limits.max)) {
+      problems.push(`Rule '${key}' must be a number from ${limits.min} to ${limits.max}`);
+    }
+  }
+  return problems;
+}
+
+// Stored custom rules may predate a rule or hold junk: keep what is valid, fill the rest from Normal
+export function sanitizeRules(stored: unknown): GameRules {
+  const rules = { ...DEFAULT_RULES };
+  if (!stored || typeof stored !== 'object') return rules;
+  for (const key of Object.keys(DEFAULT_RULES) as (keyof GameRules)[]) {
+    const value = (stored as Record<string, unknown>)[key];
+    if (value !== undefined && validateRules({ [key]: value }).length === 0) (rules as Record<string, unknown>)[key] = value;
+  }
+  return rules;
+}
@@ -0,0 +1,739 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TILE_SIZE, TICKS_PER_SECOND, TileType } from '../constants';
+import { Entity, Ghost, GhostMode, HouseState, UltimateGhost } from './entities';
+import { BonusFruit, findFruitTile, fruitDue, fruitFor } from './fruit';
+import { DEFAULT_STRATEGIES, GhostContext, GhostPhase, PhaseSpan, getPhaseSchedule } from './ghostAI';
+import { GHOST_RELEASE_TIMEOUT_TICKS, GhostHouse, findGhostHouse, releasePellets } from './ghostHouse';
+import { LEVELS } from './levelPack';
+import { LevelDefinition } from './levels';
+import { MazeGraph } from './mazeGraph';
+import { GAME_MODES, GameMode, GameModeId } from './modes';
+import { Random } from './rng';
+import { DEFAULT_RULES, GameRules, resolveRules } from './rules';
+import { Direction, GameEvent, GameStatus, PlayerMode, Position, ScoreBreakdown, ScorePopup, SimulationInput } from './types';
+
+export const PELLET_POINTS = 10;
+export const POWER_PELLET_POINTS = 50;
+export const GHOST_EAT_POINTS = [200, 400, 800, 1600];
+const ULTIMATE_GHOST_STUN_TICKS = 2 * TICKS_PER_SECOND;
+export const STARTING_LIVES = 3;
+export const MAX_STARTING_LIVES = 5;
+export const DEATH_TICKS = Math.round(1.5 * TICKS_PER_SECOND);
+export const READY_TICKS = 2 * TICKS_PER_SECOND;
+export const POPUP_TICKS = TICKS_PER_SECOND;
+export const NO_POINTS: Readonly<ScoreBreakdown> = { pellets: 0, fruit: 0, ghosts: 0, time: 0 };
+
+export function addBreakdowns(a: Readonly<ScoreBreakdown>, b: Readonly<ScoreBreakdown>): ScoreBreakdown {
+  return { pellets: a.pellets + b.pellets, fruit: a.fruit + b.fruit, ghosts: a.ghosts + b.ghosts, time: a.time + b.time };
+}
+
+export function isEdible(tile: number): boolean {
+  return tile === TileType.PELLET || tile === TileType.POWER_PELLET;
+}
+
+// Pixel distance between two entities, measured the short way round through tunnels
+export function wrappedDistance(a: Position, b: Position, map: readonly (readonly number[])[]): number {
+  const width = map[0].length * TILE_SIZE;
+  const height = map.length * TILE_SIZE;
+  const dx = Math.abs(a.x - b.x);
+  const dy = Math.abs(a.y - b.y);
+  return Math.hypot(Math.min(dx, width - dx), Math.min(dy, height - dy));
+}
+
+export interface SimulationOptions {
+  level?: LevelDefinition;
+  levelNumber?: number; // 1-based position in the level sequence; later levels scatter less
+  startScore?: number; // Score carried over from previous boards
+  lives?: number; // Lives carried over from previous boards, including the one in play
+  rules?: GameRules; // Difficulty preset (with the mode's changes); the level's own overrides are applied on top
+  mode?: GameModeId;
+  players?: PlayerMode;
+  startPlayerScores?: number[]; // Each Pac-Man's share of startScore; player one gets all of it by default
+  seed?: number;
+}
+
+export interface SimulationState {
+  readonly tick: number;
+  readonly seed: number;
+  readonly level: LevelDefinition;
+  readonly levelNumber: number;
+  readonly rules: GameRules; // As applied to this level
+  readonly mode: GameModeId;
+  readonly players: PlayerMode;
+  readonly status: GameStatus;
+  readonly score: number; // Everyone's points together
+  readonly playerScores: readonly number[]; // Points each Pac-Man scored, in player order
+  readonly breakdown: Readonly<ScoreBreakdown>; // This board's points by where they came from
+  readonly lives: number;
+  readonly readyTicks: number; // Counts down the READY! pause before play (re)starts
+  readonly dyingTicks: number; // Counts down the death animation
+  readonly playTicks: number; // Ticks of actual play, without READY! pauses and death animations
+  readonly timeLeftTicks: number | null; // Until the mode's time limit ends the run
+  readonly ghostSpeedBoost: number; // Added to ghost speeds by modes that speed up over time
+  readonly pelletsLeft: number;
+  readonly frightenedTicks: number;
+  readonly ghostPhase: GhostPhase;
+  readonly map: readonly (readonly number[])[];
+  readonly pacman: Readonly<Entity>; // Player one
+  readonly pacmen: readonly Readonly<Entity>[];
+  readonly ghosts: readonly Readonly<Ghost>[];
+  readonly ultimateGhost: Readonly<UltimateGhost> | null;
+  readonly fruit: Readonly<BonusFruit> | null;
+  readonly popups: readonly ScorePopup[];
+  readonly graph: MazeGraph; // The ghosts' view of the maze, with the house doors open
+  readonly house: GhostHouse | null;
+  readonly mergePoint: Position; // Tile the ghosts gather on to merge
+}
+
+export interface SavedActor {
+  x: number;
+  y: number;
+  direction: Direction;
+  nextDirection: Direction;
+  speed: number;
+}
+
+export interface SavedGhost extends SavedActor {
+  mode: GhostMode;
+  isMerging: boolean;
+  merged: boolean;
+  baseSpeed: number;
+  target: Position | null;
+  controlled: boolean;
+  houseState: HouseState;
+}
+
+export interface SavedUltimateGhost extends SavedGhost {
+  stunnedTicks: number;
+}
+
+// Everything about a board that changes while it is played, RNG included, as plain data. Restored onto a
+// simulation built from the same options, it carries on exactly as the original would have.
+export interface SimulationSnapshot {
+  seed: number;
+  rngState: number;
+  tick: number;
+  status: GameStatus;
+  score: number;
+  playerScores: number[];
+  breakdown: ScoreBreakdown;
+  lives: number;
+  readyTicks: number;
+  dyingTicks: number;
+  playTicks: number;
+  pelletsLeft: number;
+  pelletsEaten: number;
+  map: number[][];
+  pacmen: SavedActor[];
+  ghosts: SavedGhost[];
+  ultimateGhost: SavedUltimateGhost | null;
+  fruit: BonusFruit | null;
+  popups: ScorePopup[];
+  mergeStarted: boolean;
+  frightenedTicks: number;
+  ghostCombo: number;
+  phaseIndex: number;
+  phaseTicks: number;
+  housePellets: number[];
+  houseIdleTicks: number;
+}
+
+function saveActor({ x, y, direction, nextDirection, speed }: Entity): SavedActor {
+  return { x, y, direction, nextDirection, speed };
+}
+
+function saveGhost(ghost: Ghost): SavedGhost {
+  const { mode, isMerging, merged, baseSpeed, target, controlled, houseState } = ghost;
+  return { ...saveActor(ghost), mode, isMerging, merged, baseSpeed, target: target && { ...target }, controlled, houseState };
+}
+
+function loadActor<T extends Entity>(actor: T, saved: SavedActor): T {
+  actor.x = saved.x;
+  actor.y = saved.y;
+  actor.gridX = Math.floor(saved.x / TILE_SIZE);
+  actor.gridY = Math.floor(saved.y / TILE_SIZE);
+  actor.direction = saved.direction;
+  actor.nextDirection = saved.nextDirection;
+  actor.speed = saved.speed;
+  return actor;
+}
+
+function loadGhost<T extends Ghost>(ghost: T, saved: SavedGhost): T {
+  loadActor(ghost, saved);
+  ghost.mode = saved.mode;
+  ghost.isMerging = saved.isMerging;
+  ghost.merged = saved.merged;
+  ghost.baseSpeed = saved.baseSpeed;
+  ghost.target = saved.target && { ...saved.target };
+  ghost.controlled = saved.controlled;
+  ghost.houseState = saved.houseState;
+  return ghost;
+}
+
+// Headless game core: owns every entity and rule, knows nothing about canvas or React.
+export class GameSimulation {
+  private readonly level: LevelDefinition;
+  private readonly levelNumber: number;
+  private readonly rules: GameRules;
+  private readonly mode: GameMode;
+  private readonly players: PlayerMode;
+  private readonly startScore: number;
+  private readonly startPlayerScores: number[];
+  private readonly startLives: number;
+  private readonly baseMap: number[][];
+  private readonly schedule: PhaseSpan[];
+  private readonly graph: MazeGraph;
+  private readonly house: GhostHouse | null;
+  private mergePoint: Position = { x: 0, y: 0 };
+  private pacmanStart: Position = { x: 0, y: 0 };
+  private fruitTile: Position = { x: 0, y: 0 };
+  private ghostStarts: Position[] = [];
+  private seed: number = 0;
+  private rng: Random = new Random(0);
+  private tick: number = 0;
+  private status: GameStatus = 'PLAYING';
+  private score: number = 0;
+  private playerScores: number[] = [];
+  private breakdown: ScoreBreakdown = { ...NO_POINTS };
+  private lives: number = 0;
+  private readyTicks: number = 0;
+  private dyingTicks: number = 0;
+  private playTicks: number = 0; // Ticks of actual play, so pauses don't count toward pellet respawns
+  private pelletsLeft: number = 0;
+  private pelletTotal: number = 0; // On the board as laid out
+  private pelletsEaten: number = 0; // On this board, refills included; brings out the fruit
+  private map: number[][] = [];
+  private pacmen: Entity[] = []; // Two in co-op; everyone shares the lives
+  private ghosts: Ghost[] = [];
+  private ultimateGhost: UltimateGhost | null = null;
+  private fruit: BonusFruit | null = null;
+  private popups: ScorePopup[] = [];
+  private mergeStarted: boolean = false;
+  private frightenedTicks: number = 0;
+  private ghostCombo: number = 0;
+  private phaseIndex: number = 0;
+  private phaseTicks: number = 0;
+  private housePellets: number[] = []; // Pellets each waiting ghost has counted towards its release
+  private houseIdleTicks: number = 0; // Since Pac-Man last ate a pellet, while a ghost is waiting
+
+  constructor(options: SimulationOptions = {}) {
+    this.level = options.level ?? LEVELS[0];
+    this.levelNumber = options.levelNumber ?? 1;
+    this.rules = resolveRules(options.rules ?? DEFAULT_RULES, this.level.rules);
+    this.mode = GAME_MODES[options.mode ?? 'classic'];
+    this.players = options.players ?? 'solo';
+    this.startScore = options.startScore ?? 0;
+    const pacmanCount = this.players === 'co-op' ? 2 : 1;
+    this.startPlayerScores = Array.from({ length: pacmanCount }, (_, i) => options.startPlayerScores?.[i] ?? (i === 0 ? this.startScore : 0));
+    this.startLives = options.lives ?? STARTING_LIVES;
+    this.baseMap = this.level.grid.map(row => [...row]);
+    this.schedule = getPhaseSchedule(this.levelNumber);
+    this.graph = new MazeGraph(this.baseMap, { ghostDoors: true });
+    this.house = findGhostHouse(this.baseMap);
+    this.reset(options.seed);
+  }
+
+  reset(seed: number = Date.now()) {
+    this.seed = seed >>> 0;
+    this.rng = new Random(this.seed);
+    this.tick = 0;
+    this.status = 'PLAYING';
+    this.score = this.startScore;
+    this.playerScores = [...this.startPlayerScores];
+    this.breakdown = { ...NO_POINTS };
+    this.lives = this.startLives;
+    this.dyingTicks = 0;
+    this.playTicks = 0;
+    this.ultimateGhost = null;
+    this.mergeStarted = false;
+    this.popups = [];
+    this.pelletsEaten = 0;
+    this.map = this.baseMap.map(row => [...row]);
+
+    let pCount = 0;
+    this.pacmanStart = { x: 9, y: 15 };
+    this.ghostStarts = [];
+
+    for (let y = 0; y < this.map.length; y++) {
+      for (let x = 0; x < this.map[y].length; x++) {
+        if (isEdible(this.map[y][x])) pCount++;
+        if (this.map[y][x] === TileType.PACMAN_START) this.pacmanStart = { x, y };
+        if (this.map[y][x] === TileType.GHOST_START) this.ghostStarts.push({ x, y });
+      }
+    }
+
+    this.pelletsLeft = pCount;
+    this.pelletTotal = pCount;
+    // Ghosts merge on the middle tile of their house
+    this.mergePoint = this.ghostStarts[Math.floor(this.ghostStarts.length / 2)] ?? this.pacmanStart;
+    this.fruitTile = findFruitTile(this.baseMap, this.mergePoint, this.house, this.pacmanStart);
+    this.ghosts = [];
+    this.placeActors();
+  }
+
+  // Put Pac-Man and the ghosts back on their start tiles; the board itself is left as it is
+  private placeActors() {
+    // Both Pac-Men share the start tile and head off in opposite directions
+    this.pacmen = this.startPlayerScores.map((_, i) => {
+      const pacman = new Entity(this.pacmanStart.x, this.pacmanStart.y);
+      pacman.direction = i === 0 ? 'LEFT' : 'RIGHT'; // Start moving immediately
+      pacman.nextDirection = pacman.direction;
+      return pacman;
+    });
+
+    // Once merged, the ghosts stay merged and only the Ultimate Ghost goes home
+    if (this.ultimateGhost || this.mode.ultimateGhostFromStart) {
+      this.ultimateGhost = this.createUltimateGhost();
+    } else {
+      this.ghosts = this.ghostStarts.map((pos, i) => {
+        const ghost = new Ghost(pos.x, pos.y, DEFAULT_STRATEGIES[i % DEFAULT_STRATEGIES.length]);
+        ghost.baseSpeed = this.rules.ghostSpeed;
+        ghost.house = this.house;
+        ghost.houseState = this.house ? 'WAITING' : 'OUT';
+        return ghost;
+      });
+      // In versus the second player takes the first ghost's place
+      if (this.players === 'versus' && this.ghosts.length > 0) this.ghosts[0].controlled = true;
+    }
+
+    this.fruit = null;
+    this.frightenedTicks = 0;
+    this.ghostCombo = 0;
+    this.phaseIndex = 0;
+    this.phaseTicks = 0;
+    // Every (re)start lets the ghosts out one by one again
+    this.housePellets = this.ghosts.map(() => 0);
+    this.houseIdleTicks = 0;
+    this.readyTicks = READY_TICKS;
+  }
+
+  private createUltimateGhost(): UltimateGhost {
+    const ug = new UltimateGhost(this.mergePoint.x, this.mergePoint.y);
+    ug.speed = this.rules.ultimateGhostSpeed + this.ghostSpeedBoost();
+    ug.controlled = this.players === 'versus';
+    ug.house = this.house;
+    ug.houseState = this.house ? 'LEAVING' : 'OUT';
+    return ug;
+  }
+
+  private ghostSpeedBoost(): number {
+    const speedup = this.mode.ghostSpeedup;
+    if (!speedup) return 0;
+    const steps = Math.floor(this.playTicks / (speedup.everySeconds * TICKS_PER_SECOND));
+    return Math.min(steps * speedup.step, speedup.max);
+  }
+
+  private timeLeftTicks(): number | null {
+    const limit = this.mode.timeLimitSeconds;
+    return limit === null ? null : Math.max(0, limit * TICKS_PER_SECOND - this.playTicks);
+  }
+
+  getState(): SimulationState {
+    return {
+      tick: this.tick,
+      seed: this.seed,
+      level: this.level,
+      levelNumber: this.levelNumber,
+      rules: this.rules,
+      mode: this.mode.id,
+      players: this.players,
+      status: this.status,
+      score: this.score,
+      playerScores: this.playerScores,
+      breakdown: this.breakdown,
+      lives: this.lives,
+      readyTicks: this.readyTicks,
+      dyingTicks: this.dyingTicks,
+      playTicks: this.playTicks,
+      timeLeftTicks: this.timeLeftTicks(),
+      ghostSpeedBoost: this.ghostSpeedBoost(),
+      pelletsLeft: this.pelletsLeft,
+      frightenedTicks: this.frightenedTicks,
+      ghostPhase: this.schedule[this.phaseIndex].phase,
+      map: this.map,
+      pacman: this.pacmen[0],
+      pacmen: this.pacmen,
+      ghosts: this.ghosts,
+      ultimateGhost: this.ultimateGhost,
+      fruit: this.fruit,
+      popups: this.popups,
+      graph: this.graph,
+      house: this.house,
+      mergePoint: this.mergePoint,
+    };
+  }
+
+  snapshot(): SimulationSnapshot {
+    const ug = this.ultimateGhost;
+    return {
+      seed: this.seed,
+      rngState: this.rng.getState(),
+      tick: this.tick,
+      status: this.status,
+      score: this.score,
+      playerScores: [...this.playerScores],
+      breakdown: { ...this.breakdown },
+      lives: this.lives,
+      readyTicks: this.readyTicks,
+      dyingTicks: this.dyingTicks,
+      playTicks: this.playTicks,
+      pelletsLeft: this.pelletsLeft,
+      pelletsEaten: this.pelletsEaten,
+      map: this.map.map(row => [...row]),
+      pacmen: this.pacmen.map(saveActor),
+      ghosts: this.ghosts.map(saveGhost),
+      ultimateGhost: ug ? { ...saveGhost(ug), stunnedTicks: ug.stunnedTicks } : null,
+      fruit: this.fruit && { ...this.fruit },
+      popups: this.popups.map(popup => ({ ...popup })),
+      mergeStarted: this.mergeStarted,
+      frightenedTicks: this.frightenedTicks,
+      ghostCombo: this.ghostCombo,
+      phaseIndex: this.phaseIndex,
+      phaseTicks: this.phaseTicks,
+      housePellets: [...this.housePellets],
+      houseIdleTicks: this.houseIdleTicks,
+    };
+  }
+
+  // Pick a board back up from snapshot(); the simulation must have been built with the options it was
+  restore(snapshot: SimulationSnapshot) {
+    this.seed = snapshot.seed >>> 0;
+    this.rng = new Random(this.seed);
+    this.rng.setState(snapshot.rngState);
+    this.tick = snapshot.tick;
+    this.status = snapshot.status;
+    this.score = snapshot.score;
+    this.playerScores = [...snapshot.playerScores];
+    this.breakdown = { ...snapshot.breakdown };
+    this.lives = snapshot.lives;
+    this.readyTicks = snapshot.readyTicks;
+    this.dyingTicks = snapshot.dyingTicks;
+    this.playTicks = snapshot.playTicks;
+    this.pelletsLeft = snapshot.pelletsLeft;
+    this.pelletsEaten = snapshot.pelletsEaten;
+    this.map = snapshot.map.map(row => [...row]);
+    this.pacmen = snapshot.pacmen.map(saved => loadActor(new Entity(this.pacmanStart.x, this.pacmanStart.y), saved));
+    this.ghosts = snapshot.ghosts.map((saved, i) => {
+      const home = this.ghostStarts[i] ?? this.mergePoint;
+      const ghost = loadGhost(new Ghost(home.x, home.y, DEFAULT_STRATEGIES[i % DEFAULT_STRATEGIES.length]), saved);
+      ghost.house = this.house;
+      return ghost;
+    });
+    this.ultimateGhost = null;
+    if (snapshot.ultimateGhost) {
+      this.ultimateGhost = loadGhost(this.createUltimateGhost(), snapshot.ultimateGhost);
+      this.ultimateGhost.stunnedTicks = snapshot.ultimateGhost.stunnedTicks;
+    }
+    this.fruit = snapshot.fruit && { ...snapshot.fruit };
+    this.popups = snapshot.popups.map(popup => ({ ...popup }));
+    this.mergeStarted = snapshot.mergeStarted;
+    this.frightenedTicks = snapshot.frightenedTicks;
+    this.ghostCombo = snapshot.ghostCombo;
+    this.phaseIndex = snapshot.phaseIndex;
+    this.phaseTicks = snapshot.phaseTicks;
+    this.housePellets = [...snapshot.housePellets];
+    this.houseIdleTicks = snapshot.houseIdleTicks;
+  }
+
+  // Debug tools: these change the board outside of the inputs, so a replay of the run no longer matches it
+
+  // Put a Pac-Man on the centre of a tile he could walk on, standing still; false if he can't be there
+  teleportPacman(player: number, x: number, y: number): boolean {
+    const pacman = this.pacmen[player];
+    const tile = this.baseMap[y]?.[x];
+    if (!pacman || tile === undefined || tile === TileType.WALL || tile === TileType.GHOST_DOOR || this.house?.isHome(x, y)) return false;
+    loadActor(pacman, { x: x * TILE_SIZE + TILE_SIZE / 2, y: y * TILE_SIZE + TILE_SIZE / 2, direction: null, nextDirection: null, speed: pacman.speed });
+    return true;
+  }
+
+  // Send the ghosts to merge now, whatever the score
+  forceMerge(): GameEvent[] {
+    if (this.mergeStarted || this.ghosts.length === 0 || this.status !== 'PLAYING') return [];
+    this.mergeStarted = true;
+    return [{ type: 'MERGE_STARTED' }];
+  }
+
+  step(input: SimulationInput = {}): GameEvent[] {
+    const events: GameEvent[] = [];
+    if (this.status !== 'PLAYING') return events;
+
+    this.tick++;
+    // Input during the READY! pause is kept as a buffered turn
+    this.applyInput(input.directions ?? [input.direction]);
+    if (this.popups.length > 0) {
+      this.popups = this.popups.map(popup => ({ ...popup, ticksLeft: popup.ticksLeft - 1 })).filter(popup => popup.ticksLeft > 0);
+    }
+
+    if (this.dyingTicks > 0) {
+      if (--this.dyingTicks === 0) {
+        if (this.lives === 0) this.end('LOST', events);
+        else this.placeActors();
+      }
+      return events;
+    }
+    if (this.readyTicks > 0) {
+      this.readyTicks--;
+      return events;
+    }
+
+    this.playTicks++;
+    const scoreBefore = this.score;
+    const { pelletRespawnSeconds } = this.rules;
+    if (pelletRespawnSeconds !== null && this.playTicks % Math.round(pelletRespawnSeconds * TICKS_PER_SECOND) === 0) {
+      this.respawnPellets(events);
+    }
+    if (this.mode.survivalPointsPerSecond > 0 && this.playTicks % TICKS_PER_SECOND === 0) {
+      this.pacmen.forEach((_, i) => this.award(i, this.mode.survivalPointsPerSecond, 'time'));
+    }
+    if (this.mode.ghostSpeedup) this.applySpeedBoost();
+
+    const { pacmen, map } = this;
+    pacmen.forEach(pacman => pacman.updatePosition(map));
+
+    if (this.fruit && --this.fruit.ticksLeft === 0) this.fruit = null;
+
+    if (this.frightenedTicks > 0) {
+      if (--this.frightenedTicks === 0) {
+        this.ghosts.forEach(ghost => {
+          if (ghost.mode === 'FRIGHTENED') ghost.mode = 'NORMAL';
+        });
+      }
+    } else {
+      this.advancePhase();
+    }
+
+    // Eat pellet; when both Pac-Men reach one together, player one gets it
+    let ate = false;
+    pacmen.forEach((pacman, player) => {
+      const tile = map[pacman.gridY][pacman.gridX];
+      if (!isEdible(tile)) return;
+      map[pacman.gridY][pacman.gridX] = TileType.EMPTY;
+      this.pelletsLeft--;
+      ate = true;
+      if (fruitDue(++this.pelletsEaten, this.pelletTotal)) this.spawnFruit(events);
+
+      if (tile === TileType.POWER_PELLET) {
+        this.award(player, POWER_PELLET_POINTS, 'pellets');
+        this.frightenedTicks = Math.round(this.rules.frightenedSeconds * TICKS_PER_SECOND);
+        this.ghostCombo = 0;
+        this.ghosts.forEach(ghost => ghost.frighten());
+        this.ultimateGhost?.stun(ULTIMATE_GHOST_STUN_TICKS);
+        events.push({ type: 'POWER_PELLET_EATEN', x: pacman.gridX, y: pacman.gridY, player });
+      } else {
+        this.award(player, PELLET_POINTS, 'pellets');
+        events.push({ type: 'PELLET_EATEN', x: pacman.gridX, y: pacman.gridY, player });
+      }
+    });
+
+    const { fruit } = this;
+    const fruitEater = fruit ? pacmen.findIndex(pacman => pacman.gridX === fruit.x && pacman.gridY === fruit.y) : -1;
+    if (fruit && fruitEater !== -1) {
+      const x = fruit.x * TILE_SIZE + TILE_SIZE / 2;
+      const y = fruit.y * TILE_SIZE + TILE_SIZE / 2;
+      this.award(fruitEater, fruit.points, 'fruit');
+      this.popUp(x, y, fruit.points);
+      this.fruit = null;
+      events.push({ type: 'FRUIT_EATEN', points: fruit.points, x, y, player: fruitEater });
+    }
+
+    const boardScore = this.score - this.startScore;
+    const { mergeScore, winScore } = this.rules;
+    if (mergeScore !== null && boardScore >= mergeScore && !this.mergeStarted) {
+      this.mergeStarted = true;
+      events.push({ type: 'MERGE_STARTED' });
+    }
+    if (!this.mergeStarted) this.releaseGhosts(ate);
+
+    const ctx: GhostContext = {
+      map,
+      pacman: pacmen[0],
+      ghosts: this.ghosts,
+      phase: this.schedule[this.phaseIndex].phase,
+      graph: this.graph,
+      mergePoint: this.mergePoint,
+    };
+
+    this.ghosts.forEach(ghost => {
+      if (this.mergeStarted && !ghost.isMerging) {
+        ghost.isMerging = true;
+        ghost.mode = 'NORMAL';
+        ghost.release();
+      }
+
+      // Each ghost chases whichever Pac-Man is closest
+      ghost.updateAI(pacmen.length > 1 ? { ...ctx, pacman: this.nearestPacman(ghost) } : ctx, this.rng);
+
+      // Collision detection (only if not merged)
+      if (!ghost.merged && !ghost.isMerging && ghost.mode !== 'EATEN' && this.dyingTicks === 0) {
+        const player = pacmen.findIndex(pacman => wrappedDistance(pacman, ghost, map) < this.rules.ghostCatchRadius * TILE_SIZE);
+        if (player === -1) return;
+
+        if (ghost.mode === 'FRIGHTENED') {
+          const points = GHOST_EAT_POINTS[Math.min(this.ghostCombo, GHOST_EAT_POINTS.length - 1)];
+          this.ghostCombo++;
+          this.award(player, points, 'ghosts');
+          this.popUp(ghost.x, ghost.y, points);
+          ghost.mode = 'EATEN';
+          events.push({ type: 'GHOST_EATEN', points, x: ghost.x, y: ghost.y, player });
+        } else {
+          this.die(events);
+        }
+      }
+    });
+
+    // Spawn the merged entity once every ghost has reached the centre
+    const allMerged = this.ghosts.length > 0 && this.ghosts.every(g => g.merged);
+    if (allMerged && !this.ultimateGhost) {
+      this.ultimateGhost = this.createUltimateGhost();
+      events.push({ type: 'ULTIMATE_GHOST_SPAWNED' });
+    }
+
+    const ug = this.ultimateGhost;
+    if (ug) {
+      ug.updateChasingAI(pacmen.length > 1 ? { ...ctx, pacman: this.nearestPacman(ug) } : ctx, this.rng);
+
+      const caught = pacmen.some(pacman => wrappedDistance(pacman, ug, map) < this.rules.ultimateGhostCatchRadius * TILE_SIZE);
+      if (caught && ug.stunnedTicks === 0 && this.dyingTicks === 0) this.die(events);
+    }
+
+    const { extraLifePoints } = this.rules;
+    if (extraLifePoints !== null && Math.floor(this.score / extraLifePoints) > Math.floor(scoreBefore / extraLifePoints)) {
+      this.lives++;
+      events.push({ type: 'EXTRA_LIFE', lives: this.lives });
+    }
+
+    if (this.dyingTicks === 0) {
+      if (this.mode.levelSequence) {
+        const cleared = this.pelletsLeft === 0 || (winScore !== null && boardScore >= winScore);
+        if (cleared) this.end('WON', events);
+      } else if (this.pelletsLeft === 0) {
+        // Modes without a level sequence play on: an empty board fills straight back up
+        this.respawnPellets(events);
+      }
+      // Running out of time with a life left is how a timed run is finished
+      if (this.timeLeftTicks() === 0) this.end('WON', events);
+    }
+
+    return events;
+  }
+
+  // Player one steers the first Pac-Man; player two the second Pac-Man, or in versus their ghost
+  private applyInput(directions: Direction[]) {
+    directions.forEach((direction, player) => {
+      if (!direction) return;
+      const entity = this.players === 'versus' && player === 1 ? this.controlledGhost() : this.pacmen[player];
+      if (entity) entity.nextDirection = direction;
+    });
+  }
+
+  private controlledGhost(): Ghost | null {
+    return this.ultimateGhost?.controlled ? this.ultimateGhost : this.ghosts.find(ghost => ghost.controlled && !ghost.merged) ?? null;
+  }
+
+  private nearestPacman(ghost: Ghost): Entity {
+    let nearest = this.pacmen[0];
+    let best = Infinity;
+    for (const pacman of this.pacmen) {
+      const dist = wrappedDistance(pacman, ghost, this.map);
+      if (dist < best) {
+        best = dist;
+        nearest = pacman;
+      }
+    }
+    return nearest;
+  }
+
+  private award(player: number, points: number, source: keyof ScoreBreakdown) {
+    this.score += points;
+    this.playerScores[player] += points;
+    this.breakdown = { ...this.breakdown, [source]: this.breakdown[source] + points };
+  }
+
+  private popUp(x: number, y: number, points: number) {
+    this.popups = [...this.popups, { x, y, points, ticksLeft: POPUP_TICKS }];
+  }
+
+  // A fresh fruit replaces one still waiting
+  private spawnFruit(events: GameEvent[]) {
+    const { fruitSeconds } = this.rules;
+    if (fruitSeconds === null) return;
+    const { x, y } = this.fruitTile;
+    this.fruit = { ...fruitFor(this.levelNumber), x, y, ticksLeft: Math.round(fruitSeconds * TICKS_PER_SECOND) };
+    events.push({ type: 'FRUIT_APPEARED', x, y });
+  }
+
+  private applySpeedBoost() {
+    const boost = this.ghostSpeedBoost();
+    this.ghosts.forEach(ghost => {
+      ghost.baseSpeed = this.rules.ghostSpeed + boost;
+    });
+    if (this.ultimateGhost) this.ultimateGhost.speed = this.rules.ultimateGhostSpeed + boost;
+  }
+
+  // Scatter/chase timer, paused while ghosts are frightened. Ghosts turn around on every switch.
+  private advancePhase() {
+    if (++this.phaseTicks < this.schedule[this.phaseIndex].ticks) return;
+    if (this.phaseIndex >= this.schedule.length - 1) return;
+
+    this.phaseIndex++;
+    this.phaseTicks = 0;
+    this.ghosts.forEach(ghost => {
+      if (ghost.mode === 'NORMAL' && !ghost.isMerging && !ghost.controlled && ghost.houseState === 'OUT') ghost.reverse();
+    });
+  }
+
+  // The first ghost still in the house counts the pellets eaten and leaves once it has seen enough;
+  // if Pac-Man stops eating for a while it is let out anyway
+  private releaseGhosts(ate: boolean) {
+    const waiting = this.ghosts.findIndex(ghost => ghost.houseState === 'WAITING');
+    if (waiting === -1) return;
+
+    if (ate) {
+      this.housePellets[waiting]++;
+      this.houseIdleTicks = 0;
+    } else {
+      this.houseIdleTicks++;
+    }
+    if (this.housePellets[waiting] >= releasePellets(waiting) || this.houseIdleTicks >= GHOST_RELEASE_TIMEOUT_TICKS) {
+      this.ghosts[waiting].release();
+      this.houseIdleTicks = 0;
+    }
+  }
+
+  // Caught: play the death animation, then respawn or end the game once it finishes
+  private die(events: GameEvent[]) {
+    this.lives--;
+    this.dyingTicks = DEATH_TICKS;
+    events.push({ type: 'PACMAN_DIED', livesLeft: this.lives });
+  }
+
+  private end(status: 'WON' | 'LOST', events: GameEvent[]) {
+    if (this.status !== 'PLAYING') return;
+    this.status = status;
+    events.push({ type: status });
+  }
+
+  // Refill pellets (and power pellets) that were eaten, except under a Pac-Man
+  private respawnPellets(events: GameEvent[]) {
+    let respawnedCount = 0;
+
+    for (let y = 0; y < this.baseMap.length; y++) {
+      for (let x = 0; x < this.baseMap[y].length; x++) {
+        if (isEdible(this.baseMap[y][x]) && this.map[y][x] === TileType.EMPTY) {
+          if (this.pacmen.some(pacman => pacman.gridX === x && pacman.gridY === y)) continue;
+          this.map[y][x] = this.baseMap[y][x];
+          respawnedCount++;
+        }
+      }
+    }
+
+    if (respawnedCount > 0) {
+      this.pelletsLeft += respawnedCount;
+      events.push({ type: 'PELLETS_RESPAWNED', count: respawnedCount });
+    }
+  }
+}
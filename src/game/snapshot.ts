@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LevelDefinition } from './levels';
+import { Replay, ReplayFormatError, ReplayRecorder, createSegmentSimulation, parseReplay } from './replay';
+import { DIFFICULTIES, Difficulty, GameRules } from './rules';
+import { GameSimulation, SimulationSnapshot } from './simulation';
+import { ScoreBreakdown } from './types';
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+// A run saved part-way through, to be picked up later exactly where it was left
+export interface RunSnapshot {
+  version: number;
+  savedAt: string;
+  difficulty: Difficulty;
+  rules: GameRules; // The difficulty's rules, for the boards still to come
+  levels: LevelDefinition[] | null; // The custom sequence being played; null for the built-in levels
+  levelIndex: number;
+  runTicks: number; // Of the boards already finished
+  runBreakdown: ScoreBreakdown; // Points from the boards already finished
+  replay: Replay; // Recorded so far; its last segment rebuilds the board in play
+  board: SimulationSnapshot;
+}
+
+export class SnapshotFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotFormatError';
+  }
+}
+
+export type RunProgress = Pick<RunSnapshot, 'difficulty' | 'rules' | 'levels' | 'levelIndex' | 'runTicks' | 'runBreakdown'>;
+
+export function createSnapshot(sim: GameSimulation, recorder: ReplayRecorder, progress: RunProgress): RunSnapshot {
+  return {
+    version: SNAPSHOT_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    ...progress,
+    replay: recorder.finish(sim.getState()),
+    board: sim.snapshot(),
+  };
+}
+
+// The board in play, as it was when saved
+export function restoreSimulation(snapshot: RunSnapshot): GameSimulation {
+  const { replay } = snapshot;
+  const sim = createSegmentSimulation(replay.segments[replay.segments.length - 1], replay.mode, replay.players);
+  sim.restore(snapshot.board);
+  return sim;
+}
+
+export function serializeSnapshot(snapshot: RunSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+const STATUSES = ['PLAYING', 'WON', 'LOST'];
+
+export function parseSnapshot(text: string): RunSnapshot {
+  let snapshot: RunSnapshot;
+  try {
+    snapshot = JSON.parse(text);
+  } catch (e) {
+    throw new SnapshotFormatError(`Saved run is not valid JSON: ${(e as Error).message}`);
+  }
+
+  if (!snapshot || typeof snapshot !== 'object') throw new SnapshotFormatError('Saved run must be a JSON object');
+  // The board state has had one format so far, so any other version is one this build cannot read.
+  // The rules and levels live in the replay, which migrates itself from older formats below.
+  if (snapshot.version !== SNAPSHOT_FORMAT_VERSION) {
+    throw new SnapshotFormatError(`Unsupported saved run version ${snapshot.version}; expected ${SNAPSHOT_FORMAT_VERSION}`);
+  }
+  try {
+    snapshot = { ...snapshot, replay: parseReplay(snapshot.replay) };
+  } catch (e) {
+    throw new SnapshotFormatError(e instanceof ReplayFormatError ? `Saved run has an invalid replay: ${e.message}` : 'Saved run has an invalid replay');
+  }
+
+  if (!DIFFICULTIES.some(({ id }) => id === snapshot.difficulty) || !snapshot.rules) {
+    throw new SnapshotFormatError('Saved run is missing its difficulty or rules');
+  }
+  if (snapshot.levels !== null && (!Array.isArray(snapshot.levels) || snapshot.levels.some(level => !level?.grid))) {
+    throw new SnapshotFormatError('Saved run has an invalid level sequence');
+  }
+  if (!Number.isInteger(snapshot.levelIndex) || !Number.isInteger(snapshot.runTicks) || !snapshot.runBreakdown) {
+    throw new SnapshotFormatError('Saved run is missing its level, play time or score breakdown');
+  }
+
+  const { board, replay } = snapshot;
+  const grid = replay.segments[replay.segments.length - 1].level.grid;
+  const pacmen = replay.players === 'co-op' ? 2 : 1;
+  if (!board || !STATUSES.includes(board.status) || !Number.isInteger(board.tick) || !Number.isInteger(board.rngState)) {
+    throw new SnapshotFormatError('Saved board is missing its status, tick or random state');
+  }
+  if (!Array.isArray(board.map) || board.map.length !== grid.length || board.map.some(row => !Array.isArray(row) || row.length !== grid[0].length)) {
+    throw new SnapshotFormatError('Saved board does not match the size of its level');
+  }
+  if (!Array.isArray(board.pacmen) || board.pacmen.length !== pacmen || !Array.isArray(board.ghosts) || !Array.isArray(board.playerScores)) {
+    throw new SnapshotFormatError('Saved board does not have the actors its player mode needs');
+  }
+  return snapshot;
+}
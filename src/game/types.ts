@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT' | null;
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export type GameStatus = 'PLAYING' | 'WON' | 'LOST';
+
+// Who shares the keyboard: one player, two Pac-Men, or a second player steering a ghost
+export type PlayerMode = 'solo' | 'co-op' | 'versus';
+
+export interface SimulationInput {
+  direction?: Direction; // Player one
+  directions?: Direction[]; // One per player, in player order; replaces `direction` when given
+}
+
+// Where the points scored on a board came from; `time` is the points some modes give for staying alive
+export interface ScoreBreakdown {
+  pellets: number; // Power pellets included
+  fruit: number;
+  ghosts: number;
+  time: number;
+}
+
+// Points floating up from where they were scored, in pixels
+export interface ScorePopup extends Position {
+  points: number;
+  ticksLeft: number;
+}
+
+export type GameEvent =
+  | { type: 'PELLET_EATEN'; x: number; y: number; player: number }
+  | { type: 'POWER_PELLET_EATEN'; x: number; y: number; player: number }
+  | { type: 'GHOST_EATEN'; points: number; x: number; y: number; player: number }
+  | { type: 'FRUIT_APPEARED'; x: number; y: number }
+  | { type: 'FRUIT_EATEN'; points: number; x: number; y: number; player: number }
+  | { type: 'PELLETS_RESPAWNED'; count: number }
+  | { type: 'MERGE_STARTED' }
+  | { type: 'ULTIMATE_GHOST_SPAWNED' }
+  | { type: 'PACMAN_DIED'; livesLeft: number }
+  | { type: 'EXTRA_LIFE'; lives: number }
+  | { type: 'WON' }
+  | { type: 'LOST' };
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Direction } from './game/types';
+
+// Keyboard, gamepad, touch swipes and the on-screen D-pad all end up as these commands
+
+export type PlayerTwoAction = 'P2_UP' | 'P2_DOWN' | 'P2_LEFT' | 'P2_RIGHT';
+export type InputAction = NonNullable<Direction> | PlayerTwoAction | 'PAUSE' | 'DEBUG';
+
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const INPUT_ACTIONS: InputAction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT', 'PAUSE', 'DEBUG', 'P2_UP', 'P2_DOWN', 'P2_LEFT', 'P2_RIGHT'];
+
+// With two players the second player's keys win, so the arrows move to player two and player one keeps WASD
+export const DEFAULT_BINDINGS: KeyBindings = {
+  UP: ['ArrowUp', 'w'],
+  DOWN: ['ArrowDown', 's'],
+  LEFT: ['ArrowLeft', 'a'],
+  RIGHT: ['ArrowRight', 'd'],
+  PAUSE: ['p', 'Escape'],
+  DEBUG: ['`'],
+  P2_UP: ['ArrowUp'],
+  P2_DOWN: ['ArrowDown'],
+  P2_LEFT: ['ArrowLeft'],
+  P2_RIGHT: ['ArrowRight'],
+};
+
+const PLAYER_TWO_DIRECTIONS: Record<PlayerTwoAction, NonNullable<Direction>> = {
+  P2_UP: 'UP',
+  P2_DOWN: 'DOWN',
+  P2_LEFT: 'LEFT',
+  P2_RIGHT: 'RIGHT',
+};
+
+function isPlayerTwoAction(action: InputAction): action is PlayerTwoAction {
+  return Object.hasOwn(PLAYER_TWO_DIRECTIONS, action);
+}
+
+// Player one's direction actions, or player two's
+function actionsOf(player: number): InputAction[] {
+  return player === 1 ? ['P2_UP', 'P2_DOWN', 'P2_LEFT', 'P2_RIGHT'] : ['UP', 'DOWN', 'LEFT', 'RIGHT', 'PAUSE', 'DEBUG'];
+}
+
+// One-off commands rather than directions: they don't repeat while held and let the key do its usual thing
+function isCommand(action: InputAction): boolean {
+  return action === 'PAUSE' || action === 'DEBUG';
+}
+
+const BINDINGS_KEY = 'pacman.keyBindings';
+const SWIPE_DISTANCE = 24; // Pixels a finger has to travel before it counts as a swipe
+const STICK_DEADZONE = 0.5;
+const BUFFER_MS = 250; // A command not picked up by the game within this long is dropped
+
+// Standard gamepad mapping: d-pad buttons and Start
+const GAMEPAD_BUTTONS: [number, InputAction][] = [[12, 'UP'], [13, 'DOWN'], [14, 'LEFT'], [15, 'RIGHT'], [9, 'PAUSE']];
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  ' ': 'Space',
+};
+
+export function formatKey(key: string): string {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+// Letters are stored lowercase so Shift or Caps Lock don't break a binding
+function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+function loadBindings(): KeyBindings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BINDINGS_KEY) ?? 'null');
+    // Bindings saved before an action existed get its defaults
+    if (stored && typeof stored === 'object') {
+      return Object.fromEntries(
+        INPUT_ACTIONS.map(action => [action, Array.isArray(stored[action]) ? stored[action] : [...DEFAULT_BINDINGS[action]]]),
+      ) as KeyBindings;
+    }
+  } catch {
+    // Fall back to the defaults below
+  }
+  return structuredClone(DEFAULT_BINDINGS);
+}
+
+function swipeDirection(dx: number, dy: number): Direction {
+  if (Math.max(Math.abs(dx), Math.abs(dy)) < SWIPE_DISTANCE) return null;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? 'RIGHT' : 'LEFT';
+  return dy > 0 ? 'DOWN' : 'UP';
+}
+
+export class InputManager {
+  bindings: KeyBindings = loadBindings();
+  onPause: (() => void) | null = null;
+  onDebug: (() => void) | null = null; // Toggles the developer overlay
+  onChange: (() => void) | null = null; // Bindings, capture state or connected gamepads changed
+  players: number = 1; // With two, player two's keys and the second gamepad steer player two
+  private buffered: Direction[] = [null, null]; // One per player
+  private bufferedAt: number[] = [0, 0];
+  private capture: { action: InputAction; slot: number } | null = null;
+  private gamepadHeld = new Set<InputAction>();
+  private pollId: number | null = null;
+  private touchOrigin: { x: number; y: number } | null = null;
+  private detachers: (() => void)[] = [];
+
+  get capturing(): { action: InputAction; slot: number } | null {
+    return this.capture;
+  }
+
+  get gamepadConnected(): boolean {
+    return this.connectedGamepads().length > 0;
+  }
+
+  attach(target: Window) {
+    const handleKeyDown = (e: KeyboardEvent) => this.handleKeyDown(e);
+    const handleGamepad = () => {
+      this.updatePolling();
+      this.onChange?.();
+    };
+    target.addEventListener('keydown', handleKeyDown);
+    target.addEventListener('gamepadconnected', handleGamepad);
+    target.addEventListener('gamepaddisconnected', handleGamepad);
+    this.detachers.push(() => {
+      target.removeEventListener('keydown', handleKeyDown);
+      target.removeEventListener('gamepadconnected', handleGamepad);
+      target.removeEventListener('gamepaddisconnected', handleGamepad);
+    });
+    this.updatePolling();
+  }
+
+  // Swipes anywhere on the element steer; the page must not scroll while playing. Returns a detach function.
+  attachTouch(element: HTMLElement): () => void {
+    const handleStart = (e: TouchEvent) => {
+      const touch = e.touches[0];
+      this.touchOrigin = { x: touch.clientX, y: touch.clientY };
+    };
+    const handleMove = (e: TouchEvent) => {
+      if (!this.touchOrigin) return;
+      e.preventDefault();
+      const touch = e.touches[0];
+      const dir = swipeDirection(touch.clientX - this.touchOrigin.x, touch.clientY - this.touchOrigin.y);
+      if (!dir) return;
+      this.press(dir);
+      // Measure the next swipe from here, so one drag can turn several corners
+      this.touchOrigin = { x: touch.clientX, y: touch.clientY };
+    };
+    const handleEnd = () => {
+      this.touchOrigin = null;
+    };
+    element.addEventListener('touchstart', handleStart, { passive: true });
+    element.addEventListener('touchmove', handleMove, { passive: false });
+    element.addEventListener('touchend', handleEnd);
+    element.addEventListener('touchcancel', handleEnd);
+    return () => {
+      element.removeEventListener('touchstart', handleStart);
+      element.removeEventListener('touchmove', handleMove);
+      element.removeEventListener('touchend', handleEnd);
+      element.removeEventListener('touchcancel', handleEnd);
+    };
+  }
+
+  detach() {
+    this.detachers.forEach(detach => detach());
+    this.detachers = [];
+    if (this.pollId !== null) cancelAnimationFrame(this.pollId);
+    this.pollId = null;
+  }
+
+  // Used by the on-screen D-pad as well as every other source
+  press(action: InputAction) {
+    if (action === 'PAUSE') {
+      this.onPause?.();
+      return;
+    }
+    if (action === 'DEBUG') {
+      this.onDebug?.();
+      return;
+    }
+    const player = isPlayerTwoAction(action) ? 1 : 0;
+    if (player >= this.players) return;
+    this.buffered[player] = isPlayerTwoAction(action) ? PLAYER_TWO_DIRECTIONS[action] : action;
+    this.bufferedAt[player] = performance.now();
+  }
+
+  // The most recent direction command of a player, if it is still fresh; each command is handed out once
+  takeDirection(player: number = 0): Direction {
+    const dir = performance.now() - this.bufferedAt[player] <= BUFFER_MS ? this.buffered[player] : null;
+    this.buffered[player] = null;
+    return dir;
+  }
+
+  clear() {
+    this.buffered = [null, null];
+  }
+
+  // The next key pressed replaces binding `slot` of `action`
+  captureNext(action: InputAction, slot: number) {
+    this.capture = { action, slot };
+    this.onChange?.();
+  }
+
+  cancelCapture() {
+    this.capture = null;
+    this.onChange?.();
+  }
+
+  resetBindings() {
+    this.bindings = structuredClone(DEFAULT_BINDINGS);
+    this.saveBindings();
+  }
+
+  private bind(action: InputAction, slot: number, key: string) {
+    // A key drives a single action of each player: take it away from wherever else that player had it
+    for (const other of actionsOf(isPlayerTwoAction(action) ? 1 : 0)) {
+      this.bindings[other] = this.bindings[other].filter(bound => bound !== key);
+    }
+    const keys = [...this.bindings[action]];
+    keys.splice(Math.min(slot, keys.length), slot < keys.length ? 1 : 0, key);
+    this.bindings[action] = keys;
+    this.saveBindings();
+  }
+
+  private saveBindings() {
+    localStorage.setItem(BINDINGS_KEY, JSON.stringify(this.bindings));
+    this.onChange?.();
+  }
+
+  private handleKeyDown(e: KeyboardEvent) {
+    const key = normalizeKey(e.key);
+
+    if (this.capture) {
+      e.preventDefault();
+      const { action, slot } = this.capture;
+      this.capture = null;
+      // Escape cancels, unless it is being bound to Pause
+      if (key === 'Escape' && action !== 'PAUSE') this.onChange?.();
+      else this.bind(action, slot, key);
+      return;
+    }
+
+    // Typing a name or a level id must not steer Pacman
+    const target = e.target as HTMLElement | null;
+    if (target?.closest?.('input, textarea, select')) return;
+
+    // Player two's keys come first, so a key bound for both players goes to player two
+    const actions = this.players > 1 ? [...actionsOf(1), ...actionsOf(0)] : actionsOf(0);
+    const action = actions.find(a => this.bindings[a].includes(key));
+    if (!action) return;
+    // Arrow keys and Space would otherwise scroll the page
+    if (!isCommand(action)) e.preventDefault();
+    if (isCommand(action) && e.repeat) return;
+    this.press(action);
+  }
+
+  private connectedGamepads(): Gamepad[] {
+    if (typeof navigator.getGamepads !== 'function') return [];
+    return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+  }
+
+  // Gamepads have no events for buttons, so poll them every frame while one is plugged in
+  private updatePolling() {
+    const wanted = this.detachers.length > 0 && this.gamepadConnected;
+    if (wanted && this.pollId === null) {
+      const poll = () => {
+        this.pollGamepads();
+        this.pollId = requestAnimationFrame(poll);
+      };
+      this.pollId = requestAnimationFrame(poll);
+    } else if (!wanted && this.pollId !== null) {
+      cancelAnimationFrame(this.pollId);
+      this.pollId = null;
+      this.gamepadHeld.clear();
+    }
+  }
+
+  private pollGamepads() {
+    const held = new Set<InputAction>();
+    this.connectedGamepads().forEach((pad, index) => {
+      // With two players the second gamepad is player two's; otherwise every gamepad steers player one
+      const playerTwo = this.players > 1 && index === 1;
+      const add = (action: InputAction) => {
+        held.add(playerTwo && action !== 'PAUSE' ? (`P2_${action}` as PlayerTwoAction) : action);
+      };
+      for (const [button, action] of GAMEPAD_BUTTONS) {
+        if (pad.buttons[button]?.pressed) add(action);
+      }
+      const [x = 0, y = 0] = pad.axes;
+      if (Math.max(Math.abs(x), Math.abs(y)) >= STICK_DEADZONE) {
+        add(Math.abs(x) > Math.abs(y) ? (x > 0 ? 'RIGHT' : 'LEFT') : (y > 0 ? 'DOWN' : 'UP'));
+      }
+    });
+
+    // Act on presses, not on holds, like a key without auto-repeat
+    held.forEach(action => {
+      if (!this.gamepadHeld.has(action)) this.press(action);
+    });
+    this.gamepadHeld = held;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICKS_PER_SECOND } from './constants';
+import { LevelDefinition } from './game/levels';
+import {
+  BoardSnapshot,
+  ClientMessage,
+  NET_PATH,
+  NET_PROTOCOL_VERSION,
+  RoomMode,
+  RoomResult,
+  SNAPSHOT_EVERY_TICKS,
+  ServerMessage,
+  restoreGhost,
+  restorePacman,
+  restoreUltimateGhost,
+} from './game/netProtocol';
+import { Direction } from './game/types';
+import { ActorPositions, FrameState, captureActors } from './render';
+
+// Client for online play against the game server in server/gameServer.ts (proxied under /play by the dev server)
+
+const TICK_MS = 1000 / TICKS_PER_SECOND;
+const SNAPSHOT_MS = SNAPSHOT_EVERY_TICKS * TICK_MS;
+const MAX_PREDICTED_TICKS = 12; // Beyond this a late snapshot is waited for rather than guessed past
+
+export type OnlineStatus = 'connecting' | 'lobby' | 'playing' | 'over' | 'closed';
+
+interface ReceivedSnapshot {
+  tick: number;
+  boards: BoardSnapshot[];
+  acks: number[];
+  receivedAt: number;
+}
+
+// What to draw right now: every board, with where its actors were for smoothing towards them
+export interface OnlineFrame {
+  boards: FrameState[];
+  previous: (ActorPositions | null)[];
+  alpha: number;
+}
+
+function boardFrame(board: BoardSnapshot, level: LevelDefinition): FrameState {
+  const pacmen = board.pacmen.map(restorePacman);
+  return {
+    tick: board.tick,
+    level,
+    map: board.map,
+    pacman: pacmen[0],
+    pacmen,
+    ghosts: board.ghosts.map(restoreGhost),
+    ultimateGhost: board.ultimateGhost ? restoreUltimateGhost(board.ultimateGhost) : null,
+    readyTicks: board.readyTicks,
+    dyingTicks: board.dyingTicks,
+    frightenedTicks: board.frightenedTicks,
+    fruit: board.fruit,
+    popups: board.popups,
+  };
+}
+
+export function defaultServerUrl(): string {
+  return `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}${NET_PATH}`;
+}
+
+export class OnlineClient {
+  onChange: (() => void) | null = null; // Status, lobby or result changed
+  status: OnlineStatus = 'connecting';
+  room: string | null = null;
+  mode: RoomMode = 'race';
+  player: number = 0;
+  players: string[] = [];
+  level: LevelDefinition | null = null;
+  result: RoomResult | null = null;
+  error: string | null = null;
+  private readonly socket: WebSocket;
+  private queued: ClientMessage[] = []; // Sent once the connection is open
+  private snapshots: ReceivedSnapshot[] = []; // The latest two
+  private seq: number = 0;
+  private pending: { seq: number; direction: NonNullable<Direction> }[] = []; // Inputs the server has not applied yet
+
+  constructor(url: string = defaultServerUrl()) {
+    this.socket = new WebSocket(url);
+    this.socket.onopen = () => {
+      this.queued.forEach(message => this.socket.send(JSON.stringify(message)));
+      this.queued = [];
+    };
+    this.socket.onmessage = e => this.handleMessage(JSON.parse(e.data) as ServerMessage);
+    this.socket.onerror = () => {
+      this.error = 'Could not reach the game server. Is `npm run server` running?';
+    };
+    this.socket.onclose = () => {
+      if (this.status !== 'over') this.status = 'closed';
+      this.onChange?.();
+    };
+  }
+
+  // The board this player is on and their Pac-Man on it
+  get ownBoard(): number {
+    return this.mode === 'race' ? this.player : 0;
+  }
+
+  get ownPacman(): number {
+    return this.mode === 'race' ? 0 : this.player;
+  }
+
+  get latest(): BoardSnapshot[] | null {
+    return this.snapshots[this.snapshots.length - 1]?.boards ?? null;
+  }
+
+  // Each player's score: their own board's in a race, their share of the shared board otherwise
+  get scores(): number[] {
+    const boards = this.latest;
+    if (!boards) return [];
+    return this.mode === 'race' ? boards.map(board => board.score) : boards[0].playerScores;
+  }
+
+  create(name: string, mode: RoomMode) {
+    this.send({ type: 'create', version: NET_PROTOCOL_VERSION, name, mode });
+  }
+
+  join(name: string, room: string) {
+    this.send({ type: 'join', version: NET_PROTOCOL_VERSION, name, room });
+  }
+
+  sendInput(direction: NonNullable<Direction>) {
+    const seq = ++this.seq;
+    this.pending.push({ seq, direction });
+    this.send({ type: 'input', seq, direction });
+  }
+
+  close() {
+    this.onChange = null;
+    this.send({ type: 'leave' });
+    this.socket.close();
+  }
+
+  // Everyone else is drawn one snapshot behind and slides towards the latest one; this player's
+  // own Pac-Man is predicted ahead from the latest snapshot, with the inputs the server has not seen yet.
+  frame(now: number): OnlineFrame | null {
+    const latest = this.snapshots[this.snapshots.length - 1];
+    if (!latest || !this.level) return null;
+    const older = this.snapshots.length > 1 ? this.snapshots[0] : null;
+
+    const boards = latest.boards.map(board => boardFrame(board, this.level!));
+    const previous = older ? older.boards.map(board => captureActors(boardFrame(board, this.level!))) : boards.map(() => null);
+    const alpha = Math.min(1, (now - latest.receivedAt) / SNAPSHOT_MS);
+
+    const board = latest.boards[this.ownBoard];
+    const pacmen = board?.pacmen.map(restorePacman) ?? [];
+    const pacman = pacmen[this.ownPacman];
+    if (pacman && board.status === 'PLAYING' && board.dyingTicks === 0) {
+      const unseen = this.pending[this.pending.length - 1];
+      if (unseen) pacman.nextDirection = unseen.direction;
+      const ahead = Math.min(MAX_PREDICTED_TICKS, Math.floor((now - latest.receivedAt) / TICK_MS)) - board.readyTicks;
+      for (let i = 0; i < ahead; i++) pacman.updatePosition(board.map);
+      boards[this.ownBoard] = { ...boards[this.ownBoard], pacman: pacmen[0], pacmen };
+      // Already where it should be: nothing to smooth
+      const positions = previous[this.ownBoard];
+      if (positions) positions.pacmen[this.ownPacman] = { x: pacman.x, y: pacman.y };
+    }
+    return { boards, previous, alpha };
+  }
+
+  private send(message: ClientMessage) {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+    else if (this.socket.readyState === WebSocket.CONNECTING) this.queued.push(message);
+  }
+
+  private handleMessage(message: ServerMessage) {
+    switch (message.type) {
+      case 'joined':
+        this.room = message.room;
+        this.mode = message.mode;
+        this.player = message.player;
+        this.level = message.level;
+        this.status = 'lobby';
+        this.error = null;
+        break;
+      case 'lobby':
+        this.players = message.players;
+        break;
+      case 'start':
+        this.status = 'playing';
+        this.snapshots = [];
+        this.pending = [];
+        break;
+      case 'snapshot': {
+        const ack = message.acks[this.player] ?? 0;
+        this.pending = this.pending.filter(input => input.seq > ack);
+        this.snapshots = [...this.snapshots.slice(-1), { ...message, receivedAt: performance.now() }];
+        return; // Drawn every frame anyway, no need to re-render the page
+      }
+      case 'end':
+        this.result = message.result;
+        this.status = 'over';
+        break;
+      case 'error':
+        this.error = message.message;
+        break;
+    }
+    this.onChange?.();
+  }
+}
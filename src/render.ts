@@ -0,0 +1,555 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TILE_SIZE, TICKS_PER_SECOND, TileType } from './constants';
+import { BonusFruit } from './game/fruit';
+import { LevelDefinition, LevelPalette } from './game/levels';
+import { DEATH_TICKS, POPUP_TICKS, SimulationState } from './game/simulation';
+import { Position } from './game/types';
+import { PelletShape, Theme, WallStyle } from './theme';
+
+// Maze colours: the theme's, unless it lets levels bring their own
+export function resolvePalette(level: LevelDefinition, theme: Theme): LevelPalette {
+  const { wall, pellet, background } = theme.palette;
+  return {
+    wall,
+    pellet,
+    background,
+    ...(theme.manifest.levelPalettes ? level.palette : undefined),
+  };
+}
+
+// Device pixels per board pixel; canvases are scaled to fit the page and the display's pixel density
+function pixelScale(ctx: CanvasRenderingContext2D): number {
+  return Math.round(Math.abs(ctx.getTransform().a) * 100) / 100;
+}
+
+// Draw an entity, plus its mirror image on the far side when it straddles a tunnel edge
+export function drawWrapped(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  extent: number,
+  drawAt: (x: number, y: number) => void,
+) {
+  const { a, d } = ctx.getTransform();
+  const width = ctx.canvas.width / Math.abs(a);
+  const height = ctx.canvas.height / Math.abs(d);
+  drawAt(x, y);
+  if (x - extent < 0) drawAt(x + width, y);
+  if (x + extent > width) drawAt(x - width, y);
+  if (y - extent < 0) drawAt(x, y + height);
+  if (y + extent > height) drawAt(x, y - height);
+}
+
+export interface MazeDrawOptions {
+  tick: number;
+  theme: Theme;
+  showMarkers?: boolean; // Editor only: show spawn and tunnel tiles the game leaves invisible
+}
+
+export function drawMaze(
+  ctx: CanvasRenderingContext2D,
+  map: readonly (readonly number[])[],
+  palette: LevelPalette,
+  options: MazeDrawOptions,
+) {
+  const { theme } = options;
+  const pelletImage = theme.sprite('pellet');
+
+  // Background, walls and doors only change with the map, so they come from a cached layer
+  ctx.drawImage(staticLayer(ctx, map, palette, theme), 0, 0, map[0].length * TILE_SIZE, map.length * TILE_SIZE);
+
+  for (let y = 0; y < map.length; y++) {
+    for (let x = 0; x < map[y].length; x++) {
+      const tile = map[y][x];
+      const px = x * TILE_SIZE;
+      const py = y * TILE_SIZE;
+
+      if (tile === TileType.PELLET) {
+        if (pelletImage) {
+          ctx.drawImage(pelletImage, px + 6, py + 6, 20, 20);
+        } else {
+          ctx.fillStyle = palette.pellet;
+          drawPellet(ctx, px + TILE_SIZE / 2, py + TILE_SIZE / 2, 3, theme.manifest.pelletShape);
+        }
+      } else if (tile === TileType.POWER_PELLET) {
+        // Pulsing power pellet
+        const pulse = 6 + Math.sin(options.tick / 8) * 1.5;
+        ctx.fillStyle = palette.pellet;
+        drawPellet(ctx, px + TILE_SIZE / 2, py + TILE_SIZE / 2, pulse, theme.manifest.pelletShape);
+      } else if (options.showMarkers && tile !== TileType.WALL && tile !== TileType.GHOST_DOOR) {
+        drawMarker(ctx, tile, px, py, theme);
+      }
+    }
+  }
+}
+
+interface StaticLayer {
+  key: string;
+  canvas: HTMLCanvasElement;
+}
+
+// One per canvas drawn on, so the game, the editor and previews don't evict each other's
+const staticLayers = new WeakMap<CanvasRenderingContext2D, StaticLayer>();
+
+// The maze's background, walls and doors at the canvas's pixel density, redrawn only when they change
+function staticLayer(ctx: CanvasRenderingContext2D, map: readonly (readonly number[])[], palette: LevelPalette, theme: Theme): HTMLCanvasElement {
+  const scale = pixelScale(ctx);
+  const doorColor = theme.doorColor();
+  let key = `${scale}|${palette.background}|${palette.wall}|${doorColor}|${theme.manifest.wallStyle}|${map[0].length}`;
+  for (const row of map) {
+    for (const tile of row) key += tile === TileType.WALL ? '#' : tile === TileType.GHOST_DOOR ? '-' : '.';
+  }
+  const cached = staticLayers.get(ctx);
+  if (cached?.key === key) return cached.canvas;
+
+  const canvas = cached?.canvas ?? document.createElement('canvas');
+  canvas.width = Math.ceil(map[0].length * TILE_SIZE * scale);
+  canvas.height = Math.ceil(map.length * TILE_SIZE * scale);
+  const layer = canvas.getContext('2d')!;
+  layer.scale(scale, scale);
+  layer.fillStyle = palette.background;
+  layer.fillRect(0, 0, map[0].length * TILE_SIZE, map.length * TILE_SIZE);
+  drawWalls(layer, map, palette.wall, theme.manifest.wallStyle);
+  for (let y = 0; y < map.length; y++) {
+    for (let x = 0; x < map[y].length; x++) {
+      if (map[y][x] === TileType.GHOST_DOOR) drawDoor(layer, map, x, y, doorColor);
+    }
+  }
+  staticLayers.set(ctx, { key, canvas });
+  return canvas;
+}
+
+// How far the wall's edge sits inside the tile, and how round its outer corners are
+const WALL_SHAPES: Record<Exclude<WallStyle, 'solid'>, { inset: number; radius: number }> = {
+  rounded: { inset: 2, radius: 6 },
+  outline: { inset: 4, radius: 8 },
+};
+
+// Neighbouring walls join into one shape; a door joins the walls either side of it
+function joinsWall(map: readonly (readonly number[])[], x: number, y: number): boolean {
+  const tile = map[y]?.[x];
+  return tile === TileType.WALL || tile === TileType.GHOST_DOOR;
+}
+
+// Every wall as one connected shape. Each tile is traced a quarter at a time: a quarter's edge depends on
+// whether the walls beside it, above or below it and diagonally past its corner carry on
+function drawWalls(ctx: CanvasRenderingContext2D, map: readonly (readonly number[])[], color: string, style: WallStyle) {
+  if (style === 'solid') {
+    ctx.fillStyle = color;
+    for (let y = 0; y < map.length; y++) {
+      for (let x = 0; x < map[y].length; x++) {
+        if (map[y][x] === TileType.WALL) ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+      }
+    }
+    return;
+  }
+
+  const { inset, radius } = WALL_SHAPES[style];
+  const fill = style === 'rounded';
+  const half = TILE_SIZE / 2;
+  ctx.beginPath();
+  for (let y = 0; y < map.length; y++) {
+    for (let x = 0; x < map[y].length; x++) {
+      if (map[y][x] !== TileType.WALL) continue;
+      for (const [dx, dy] of [[-1, -1], [1, -1], [-1, 1], [1, 1]]) {
+        const horizontal = joinsWall(map, x + dx, y);
+        const vertical = joinsWall(map, x, y + dy);
+        const diagonal = joinsWall(map, x + dx, y + dy);
+        // (u, v) runs from the tile's corner in this quarter, (0, 0), to its centre, (half, half)
+        const cornerX = x * TILE_SIZE + (dx < 0 ? 0 : TILE_SIZE);
+        const cornerY = y * TILE_SIZE + (dy < 0 ? 0 : TILE_SIZE);
+        const px = (u: number) => cornerX - dx * u;
+        const py = (v: number) => cornerY - dy * v;
+        const quarter = (u: number, v: number) => {
+          ctx.rect(Math.min(px(u), px(half)), Math.min(py(v), py(half)), half - u, half - v);
+        };
+
+        if (horizontal && vertical && diagonal) {
+          if (fill) quarter(0, 0);
+        } else if (horizontal && vertical) {
+          // Inside corner: the diagonal tile is open, so curve round it
+          ctx.moveTo(px(0), py(inset));
+          ctx.arcTo(px(inset), py(inset), px(inset), py(0), inset);
+          if (fill) {
+            ctx.lineTo(px(half), py(0));
+            ctx.lineTo(px(half), py(half));
+            ctx.lineTo(px(0), py(half));
+            ctx.closePath();
+          }
+        } else if (horizontal) {
+          if (fill) {
+            quarter(0, inset);
+          } else {
+            ctx.moveTo(px(0), py(inset));
+            ctx.lineTo(px(half), py(inset));
+          }
+        } else if (vertical) {
+          if (fill) {
+            quarter(inset, 0);
+          } else {
+            ctx.moveTo(px(inset), py(0));
+            ctx.lineTo(px(inset), py(half));
+          }
+        } else {
+          // Outside corner
+          ctx.moveTo(px(half), py(inset));
+          ctx.arcTo(px(inset), py(inset), px(inset), py(half), radius);
+          ctx.lineTo(px(inset), py(half));
+          if (fill) {
+            ctx.lineTo(px(half), py(half));
+            ctx.closePath();
+          }
+        }
+      }
+    }
+  }
+  if (fill) {
+    ctx.fillStyle = color;
+    ctx.fill();
+  } else {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.stroke();
+  }
+}
+
+// A bar across the doorway, lying along the house wall it sits in
+function drawDoor(ctx: CanvasRenderingContext2D, map: readonly (readonly number[])[], x: number, y: number, color: string) {
+  const horizontal = map[y][x - 1] === TileType.WALL || map[y][x + 1] === TileType.WALL;
+  const thickness = 4;
+  ctx.fillStyle = color;
+  if (horizontal) {
+    ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE + (TILE_SIZE - thickness) / 2, TILE_SIZE, thickness);
+  } else {
+    ctx.fillRect(x * TILE_SIZE + (TILE_SIZE - thickness) / 2, y * TILE_SIZE, thickness, TILE_SIZE);
+  }
+}
+
+// `size` is the radius for circles and the half-width for the other shapes
+function drawPellet(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, shape: PelletShape) {
+  ctx.beginPath();
+  if (shape === 'square') {
+    ctx.rect(x - size, y - size, size * 2, size * 2);
+  } else if (shape === 'diamond') {
+    ctx.moveTo(x, y - size * 1.3);
+    ctx.lineTo(x + size * 1.3, y);
+    ctx.lineTo(x, y + size * 1.3);
+    ctx.lineTo(x - size * 1.3, y);
+    ctx.closePath();
+  } else {
+    ctx.arc(x, y, size, 0, Math.PI * 2);
+  }
+  ctx.fill();
+}
+
+// What drawing a frame takes; the local simulation and online snapshots both provide it
+export type FrameState = Pick<
+  SimulationState,
+  | 'tick' | 'level' | 'map' | 'pacman' | 'pacmen' | 'ghosts' | 'ultimateGhost' | 'readyTicks' | 'dyingTicks' | 'frightenedTicks'
+  | 'fruit' | 'popups'
+>;
+
+// Mouth opening (in half-turns) per tick, so the chomp replays identically
+const MOUTH_FRAMES = [0.3, 0.2, 0.1, 0, 0.1, 0.2];
+
+// Where the moving actors were one tick earlier, for smoothing between ticks
+export interface ActorPositions {
+  pacmen: Position[];
+  ghosts: Position[];
+  ultimateGhost: Position | null;
+}
+
+export function captureActors(state: FrameState): ActorPositions {
+  const { pacmen, ghosts, ultimateGhost } = state;
+  return {
+    pacmen: pacmen.map(pacman => ({ x: pacman.x, y: pacman.y })),
+    ghosts: ghosts.map(ghost => ({ x: ghost.x, y: ghost.y })),
+    ultimateGhost: ultimateGhost ? { x: ultimateGhost.x, y: ultimateGhost.y } : null,
+  };
+}
+
+// Blend from the previous tick towards the current one; jumps (tunnels, respawns) are not smoothed
+function interpolate(current: Position, previous: Position | null | undefined, alpha: number): Position {
+  if (!previous) return current;
+  const dx = current.x - previous.x;
+  const dy = current.y - previous.y;
+  if (Math.abs(dx) > TILE_SIZE || Math.abs(dy) > TILE_SIZE) return current;
+  return { x: previous.x + dx * alpha, y: previous.y + dy * alpha };
+}
+
+export interface FrameDrawOptions {
+  theme: Theme;
+  previous?: ActorPositions | null;
+  alpha?: number; // 0..1 progress from `previous` to the current state
+}
+
+// Render one simulation state: maze, Pacman, ghosts and the UltimateGhost
+export function drawFrame(ctx: CanvasRenderingContext2D, state: FrameState, options: FrameDrawOptions) {
+  const { pacmen, ghosts, map, ultimateGhost } = state;
+  const { theme, previous, alpha = 1 } = options;
+  const { palette } = theme;
+  drawMaze(ctx, map, resolvePalette(state.level, theme), { tick: state.tick, theme });
+  if (state.fruit) drawFruit(ctx, state.fruit);
+
+  const radius = TILE_SIZE / 2 - 4;
+  
+  // Animate mouth; when caught it turns upwards and opens until Pacman is gone
+  const dying = state.dyingTicks > 0;
+  const mouthOpen = dying ? 1 - state.dyingTicks / DEATH_TICKS : MOUTH_FRAMES[state.tick % MOUTH_FRAMES.length];
+  const pacmanSprite = theme.sprite('pacman');
+
+  // Draw Pacman; in co-op player two's is drawn in their own colour, without the sprite
+  pacmen.forEach((pacman, player) => {
+    let rotation = 0;
+    if (pacman.direction === 'UP' || dying) rotation = -Math.PI / 2;
+    else if (pacman.direction === 'DOWN') rotation = Math.PI / 2;
+    else if (pacman.direction === 'LEFT') rotation = Math.PI;
+
+    const pacmanAt = interpolate(pacman, previous?.pacmen[player], alpha);
+    drawWrapped(ctx, pacmanAt.x, pacmanAt.y, radius, (x, y) => {
+      if (pacmanSprite && !dying && player === 0) {
+        drawSprite(ctx, pacmanSprite, x, y, radius, rotation);
+        return;
+      }
+      const color = theme.pacmanColor(player);
+      drawCached(ctx, `pacman|${color}|${mouthOpen.toFixed(3)}|${rotation}`, x, y, radius + 1, frame => {
+        frame.fillStyle = color;
+        frame.beginPath();
+        frame.moveTo(0, 0);
+        frame.arc(0, 0, radius, rotation + mouthOpen * Math.PI, rotation + (2 - mouthOpen) * Math.PI);
+        frame.fill();
+      });
+    });
+  });
+
+  // Ghosts leave the stage while Pacman dies
+  if (dying) {
+    drawPopups(ctx, state, theme);
+    return;
+  }
+
+  // Draw Ghosts
+  const ghostSprite = theme.sprite('ghost');
+  ghosts.forEach((ghost, i) => {
+    if (ghost.merged) return;
+
+    ctx.save();
+    if (ghost.isMerging) ctx.globalAlpha = 0.6; // Make ghosts transparent when merging
+    
+    // Frightened ghosts turn blue and flash during the last two seconds
+    let color = theme.ghostColor(i);
+    if (ghost.mode === 'FRIGHTENED') {
+      const flashing = state.frightenedTicks < 120 && Math.floor(state.tick / 10) % 2 === 0;
+      color = flashing ? palette.frightenedFlash : palette.frightened;
+    }
+
+    const at = interpolate(ghost, previous?.ghosts[i], alpha);
+    drawWrapped(ctx, at.x, at.y, radius, (x, y) => {
+      // A ghost sprite only stands in for the normal look; frightened ghosts and eyes are always drawn
+      if (ghostSprite && ghost.mode === 'NORMAL') {
+        drawSprite(ctx, ghostSprite, x, y, radius, 0);
+        return;
+      }
+      drawCached(ctx, `ghost|${ghost.mode}|${color}`, x, y, radius + 3, frame => {
+        // Eaten ghosts are just a pair of eyes heading home
+        if (ghost.mode !== 'EATEN') {
+          frame.fillStyle = color;
+          frame.beginPath();
+          // Simple ghost shape
+          frame.arc(0, -2, radius, Math.PI, 0);
+          frame.lineTo(radius, radius);
+          frame.lineTo(-radius, radius);
+          frame.fill();
+        }
+
+        // Eyes
+        frame.fillStyle = 'white';
+        frame.beginPath();
+        frame.arc(-4, -4, 3, 0, Math.PI * 2);
+        frame.arc(4, -4, 3, 0, Math.PI * 2);
+        frame.fill();
+        frame.fillStyle = ghost.mode === 'FRIGHTENED' ? color : 'black';
+        frame.beginPath();
+        frame.arc(-4, -4, 1.5, 0, Math.PI * 2);
+        frame.arc(4, -4, 1.5, 0, Math.PI * 2);
+        frame.fill();
+      });
+    });
+    if (ghost.controlled) drawPlayerTag(ctx, at.x, at.y - radius - 8, theme);
+
+    ctx.restore();
+  });
+
+  // Draw merged entity once it exists
+  if (ultimateGhost) {
+    const ug = ultimateGhost;
+
+    ctx.save();
+    if (ug.stunnedTicks > 0) ctx.globalAlpha = 0.5; // Dimmed while stunned by a power pellet
+    const at = interpolate(ug, previous?.ultimateGhost, alpha);
+    const ugSprite = theme.sprite('ultimateGhost');
+    drawWrapped(ctx, at.x, at.y, radius * 1.8, (x, y) => {
+      if (ugSprite) {
+        drawSprite(ctx, ugSprite, x, y, radius * 1.8, 0);
+      } else {
+        ctx.fillStyle = palette.ultimateGhost;
+        ctx.beginPath();
+        ctx.arc(x, y, radius * 1.8, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Big eyes for merged ghost
+        ctx.fillStyle = 'white';
+        ctx.beginPath();
+        ctx.arc(x - 10, y - 6, 8, 0, Math.PI * 2);
+        ctx.arc(x + 10, y - 6, 8, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = 'black';
+        ctx.beginPath();
+        ctx.arc(x - 10, y - 6, 4, 0, Math.PI * 2);
+        ctx.arc(x + 10, y - 6, 4, 0, Math.PI * 2);
+        ctx.fill();
+      }
+
+      // Text indicator
+      ctx.fillStyle = palette.text;
+      ctx.font = `bold 20px ${theme.manifest.fonts.sans}`;
+      ctx.textAlign = 'center';
+      ctx.fillText(ug.stunnedTicks > 0 ? 'STUNNED' : 'ULTIMATE GHOST', x, y + radius * 3);
+    });
+    if (ug.controlled) drawPlayerTag(ctx, at.x, at.y - radius * 2.6, theme);
+    ctx.restore();
+  }
+
+  drawPopups(ctx, state, theme);
+  drawReady(ctx, state, theme);
+}
+
+// A round fruit in its own colour with a stalk and a leaf, on its grid tile
+function drawFruit(ctx: CanvasRenderingContext2D, fruit: Readonly<BonusFruit>) {
+  const x = fruit.x * TILE_SIZE + TILE_SIZE / 2;
+  const y = fruit.y * TILE_SIZE + TILE_SIZE / 2 + 2;
+  const r = TILE_SIZE / 2 - 7;
+  ctx.save();
+  ctx.fillStyle = fruit.color;
+  ctx.beginPath();
+  ctx.arc(x, y, r, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.strokeStyle = '#6D4C41';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(x, y - r);
+  ctx.lineTo(x + 2, y - r - 4);
+  ctx.stroke();
+  ctx.fillStyle = '#44BD32';
+  ctx.beginPath();
+  ctx.ellipse(x + 5, y - r - 3, 4, 2, -Math.PI / 6, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+// Points just scored for a fruit or a ghost, drifting up and fading out
+function drawPopups(ctx: CanvasRenderingContext2D, state: FrameState, theme: Theme) {
+  if (state.popups.length === 0) return;
+  ctx.save();
+  ctx.fillStyle = theme.palette.text;
+  ctx.font = `bold 14px ${theme.manifest.fonts.mono}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  for (const popup of state.popups) {
+    const shown = popup.ticksLeft / POPUP_TICKS;
+    ctx.globalAlpha = Math.min(1, shown * 2);
+    ctx.fillText(String(popup.points), popup.x, popup.y - (1 - shown) * TILE_SIZE);
+  }
+  ctx.restore();
+}
+
+// Actor frames drawn once, at the canvas's pixel density, and blitted from then on; a frame is told
+// apart by its key, which must cover everything `paint` depends on
+const cachedFrames = new Map<string, HTMLCanvasElement>();
+const MAX_CACHED_FRAMES = 512;
+
+// `paint` draws around (0, 0) within `extent` of it, in board pixels
+function drawCached(
+  ctx: CanvasRenderingContext2D,
+  key: string,
+  x: number,
+  y: number,
+  extent: number,
+  paint: (frame: CanvasRenderingContext2D) => void,
+) {
+  const scale = pixelScale(ctx);
+  const scaledKey = `${key}|${scale}`;
+  let image = cachedFrames.get(scaledKey);
+  if (!image) {
+    // Dying Pac-Man frames and theme changes keep adding keys; start over rather than grow without end
+    if (cachedFrames.size >= MAX_CACHED_FRAMES) cachedFrames.clear();
+    image = document.createElement('canvas');
+    image.width = image.height = Math.ceil(extent * 2 * scale);
+    const frame = image.getContext('2d')!;
+    frame.scale(image.width / (extent * 2), image.height / (extent * 2));
+    frame.translate(extent, extent);
+    paint(frame);
+    cachedFrames.set(scaledKey, image);
+  }
+  ctx.drawImage(image, x - extent, y - extent, extent * 2, extent * 2);
+}
+
+// Square sprite centred on (x, y), turned to face the way the actor moves
+function drawSprite(ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, radius: number, rotation: number) {
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(rotation);
+  ctx.drawImage(image, -radius, -radius, radius * 2, radius * 2);
+  ctx.restore();
+}
+
+// Marks the ghost player two is steering in versus
+function drawPlayerTag(ctx: CanvasRenderingContext2D, x: number, y: number, theme: Theme) {
+  ctx.save();
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = theme.palette.text;
+  ctx.font = `bold 12px ${theme.manifest.fonts.mono}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText('P2', x, y);
+  ctx.restore();
+}
+
+// READY! with a seconds countdown, shown above Pacman's start before play (re)starts
+function drawReady(ctx: CanvasRenderingContext2D, state: FrameState, theme: Theme) {
+  if (state.readyTicks === 0) return;
+  ctx.save();
+  ctx.fillStyle = theme.palette.text;
+  ctx.font = `bold 22px ${theme.manifest.fonts.mono}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`READY! ${Math.ceil(state.readyTicks / TICKS_PER_SECOND)}`, state.pacman.x, state.pacman.y - TILE_SIZE * 2);
+  ctx.restore();
+}
+
+function drawMarker(ctx: CanvasRenderingContext2D, tile: number, px: number, py: number, theme: Theme) {
+  const markers: Partial<Record<TileType, { label: string; color: string }>> = {
+    [TileType.PACMAN_START]: { label: 'P', color: theme.palette.pacman },
+    [TileType.GHOST_START]: { label: 'G', color: theme.ghostColor(0) },
+    [TileType.TUNNEL]: { label: '⇄', color: '#B2BEC3' },
+  };
+  const marker = markers[tile as TileType];
+  if (!marker) return;
+
+  ctx.save();
+  ctx.globalAlpha = 0.35;
+  ctx.fillStyle = marker.color;
+  ctx.fillRect(px + 2, py + 2, TILE_SIZE - 4, TILE_SIZE - 4);
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#2D3436';
+  ctx.font = 'bold 14px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(marker.label, px + TILE_SIZE / 2, py + TILE_SIZE / 2);
+  ctx.restore();
+}
@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Theme packs: everything about how the game looks, described by a JSON-friendly manifest
+
+export const THEME_FORMAT_VERSION = 1;
+
+export interface ThemePalette {
+  background: string;
+  wall: string;
+  pellet: string;
+  pacman: string;
+  pacmanTwo?: string; // Player two's Pac-Man in co-op; a fixed pink when missing
+  door?: string; // The ghost house door; the wall colour when missing
+  ghosts: string[]; // One per ghost, repeating when a maze has more ghosts
+  frightened: string;
+  frightenedFlash: string;
+  ultimateGhost: string;
+  text: string; // READY! and the Ultimate Ghost's label
+}
+
+export type WallStyle = 'rounded' | 'outline' | 'solid';
+export type PelletShape = 'circle' | 'square' | 'diamond';
+export type SpriteName = 'pellet' | 'pacman' | 'ghost' | 'ultimateGhost';
+export type OverlayName = 'start' | 'victory';
+
+export interface ThemeManifest {
+  version: number;
+  id: string;
+  name: string;
+  ui: 'light' | 'dark'; // Colour scheme of the page around the canvas
+  palette: ThemePalette;
+  wallStyle: WallStyle;
+  pelletShape: PelletShape;
+  levelPalettes: boolean; // Whether a level's own wall and pellet colours are used
+  sprites?: Partial<Record<SpriteName, string>>; // Image URLs; anything missing or broken is drawn instead
+  overlays?: Partial<Record<OverlayName, string>>;
+  fonts: { sans: string; mono: string };
+}
+
+export class ThemeFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemeFormatError';
+  }
+}
+
+const DEFAULT_FONTS = { sans: '"Inter", ui-sans-serif, system-ui, sans-serif', mono: '"JetBrains Mono", ui-monospace, monospace' };
+
+export const THEMES: ThemeManifest[] = [
+  {
+    version: THEME_FORMAT_VERSION,
+    id: 'light',
+    name: 'Light',
+    ui: 'light',
+    palette: {
+      background: '#F8F9FA',
+      wall: '#0984E3',
+      pellet: '#FFD93D',
+      pacman: '#FFD93D',
+      pacmanTwo: '#FD79A8',
+      door: '#FAB1A0',
+      ghosts: ['#FF7675', '#74B9FF', '#55E6C1', '#FAB1A0'],
+      frightened: '#3742FA',
+      frightenedFlash: '#DFE4EA',
+      ultimateGhost: '#6C5CE7',
+      text: '#FFD93D',
+    },
+    wallStyle: 'rounded',
+    pelletShape: 'circle',
+    levelPalettes: true,
+    sprites: { pellet: '/x.jpg' },
+    overlays: { start: '/czjj.jpg', victory: '/z.jpg' },
+    fonts: DEFAULT_FONTS,
+  },
+  {
+    version: THEME_FORMAT_VERSION,
+    id: 'dark',
+    name: 'Dark',
+    ui: 'dark',
+    palette: {
+      background: '#12161F',
+      wall: '#3A7BD5',
+      pellet: '#F5D76E',
+      pacman: '#FFD93D',
+      pacmanTwo: '#F783AC',
+      door: '#FFB8DE',
+      ghosts: ['#FF6B6B', '#4DABF7', '#38D9A9', '#FFA94D'],
+      frightened: '#5C7CFA',
+      frightenedFlash: '#F1F3F5',
+      ultimateGhost: '#9775FA',
+      text: '#F5D76E',
+    },
+    wallStyle: 'rounded',
+    pelletShape: 'circle',
+    levelPalettes: true,
+    fonts: DEFAULT_FONTS,
+  },
+  {
+    version: THEME_FORMAT_VERSION,
+    id: 'retro',
+    name: 'Retro Arcade',
+    ui: 'dark',
+    palette: {
+      background: '#000000',
+      wall: '#2121DE',
+      pellet: '#FFB8AE',
+      pacman: '#FFFF00',
+      pacmanTwo: '#FF79C6',
+      door: '#FFB8FF',
+      ghosts: ['#FF0000', '#FFB8FF', '#00FFFF', '#FFB852'],
+      frightened: '#2121DE',
+      frightenedFlash: '#FFFFFF',
+      ultimateGhost: '#FF0000',
+      text: '#FFFF00',
+    },
+    wallStyle: 'outline',
+    pelletShape: 'square',
+    levelPalettes: false,
+    fonts: { sans: '"Press Start 2P", ui-monospace, monospace', mono: '"Press Start 2P", ui-monospace, monospace' },
+  },
+  {
+    // Okabe-Ito colours, which stay distinct under the common forms of colour blindness
+    version: THEME_FORMAT_VERSION,
+    id: 'colorblind',
+    name: 'Colorblind Safe',
+    ui: 'light',
+    palette: {
+      background: '#FFFFFF',
+      wall: '#0072B2',
+      pellet: '#E69F00',
+      pacman: '#F0E442',
+      pacmanTwo: '#CC79A7',
+      door: '#F0E442',
+      ghosts: ['#D55E00', '#56B4E9', '#009E73', '#CC79A7'],
+      frightened: '#000000',
+      frightenedFlash: '#FFFFFF',
+      ultimateGhost: '#000000',
+      text: '#000000',
+    },
+    wallStyle: 'solid',
+    pelletShape: 'diamond',
+    levelPalettes: false,
+    fonts: DEFAULT_FONTS,
+  },
+];
+
+const PALETTE_KEYS: (keyof ThemePalette)[] = ['background', 'wall', 'pellet', 'pacman', 'ghosts', 'frightened', 'frightenedFlash', 'ultimateGhost', 'text'];
+const WALL_STYLES: WallStyle[] = ['rounded', 'outline', 'solid'];
+const PELLET_SHAPES: PelletShape[] = ['circle', 'square', 'diamond'];
+
+// Accepts JSON text or an already-parsed object, e.g. from localStorage
+export function parseThemeManifest(input: string | ThemeManifest): ThemeManifest {
+  let manifest: ThemeManifest;
+  try {
+    manifest = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch (e) {
+    throw new ThemeFormatError(`Theme file is not valid JSON: ${(e as Error).message}`);
+  }
+
+  if (!manifest || typeof manifest !== 'object') throw new ThemeFormatError('Theme file must be a JSON object');
+  if (manifest.version !== THEME_FORMAT_VERSION) {
+    throw new ThemeFormatError(`Unsupported theme version ${manifest.version}; expected ${THEME_FORMAT_VERSION}`);
+  }
+  if (typeof manifest.id !== 'string' || !manifest.id || typeof manifest.name !== 'string' || !manifest.name) {
+    throw new ThemeFormatError('Theme needs an id and a name');
+  }
+  const palette = manifest.palette ?? ({} as ThemePalette);
+  const missing = PALETTE_KEYS.filter(key => palette[key] === undefined);
+  if (missing.length > 0) throw new ThemeFormatError(`Theme palette is missing ${missing.join(', ')}`);
+  if (!Array.isArray(palette.ghosts) || palette.ghosts.length === 0) throw new ThemeFormatError('Theme palette needs at least one ghost colour');
+  if (!WALL_STYLES.includes(manifest.wallStyle)) throw new ThemeFormatError(`wallStyle must be one of ${WALL_STYLES.join(', ')}`);
+  if (!PELLET_SHAPES.includes(manifest.pelletShape)) throw new ThemeFormatError(`pelletShape must be one of ${PELLET_SHAPES.join(', ')}`);
+
+  return {
+    ...manifest,
+    ui: manifest.ui === 'dark' ? 'dark' : 'light',
+    levelPalettes: manifest.levelPalettes !== false,
+    fonts: { ...DEFAULT_FONTS, ...manifest.fonts },
+  };
+}
+
+// A manifest with its sprites loaded. Sprites that are still loading or failed to load are
+// simply missing, and the renderer draws its usual shapes in their place.
+export class Theme {
+  readonly manifest: ThemeManifest;
+  private readonly images: Partial<Record<SpriteName, HTMLImageElement>> = {};
+
+  constructor(manifest: ThemeManifest, onSpriteLoad?: () => void) {
+    this.manifest = manifest;
+    for (const [name, src] of Object.entries(manifest.sprites ?? {}) as [SpriteName, string][]) {
+      const image = new Image();
+      image.referrerPolicy = 'no-referrer';
+      image.onload = () => {
+        this.images[name] = image;
+        onSpriteLoad?.();
+      };
+      image.src = src;
+    }
+  }
+
+  get palette(): ThemePalette {
+    return this.manifest.palette;
+  }
+
+  sprite(name: SpriteName): HTMLImageElement | null {
+    return this.images[name] ?? null;
+  }
+
+  pacmanColor(player: number): string {
+    return player === 0 ? this.manifest.palette.pacman : this.manifest.palette.pacmanTwo ?? '#FD79A8';
+  }
+
+  doorColor(): string {
+    return this.manifest.palette.door ?? this.manifest.palette.wall;
+  }
+
+  ghostColor(index: number): string {
+    const { ghosts } = this.manifest.palette;
+    return ghosts[index % ghosts.length];
+  }
+
+  // Page colours and fonts live in CSS; see the [data-ui] rules in index.css
+  applyToDocument(root: HTMLElement = document.documentElement) {
+    root.dataset.ui = this.manifest.ui;
+    root.style.setProperty('--font-sans', this.manifest.fonts.sans);
+    root.style.setProperty('--font-mono', this.manifest.fonts.mono);
+  }
+}
@@ -19,6 +19,12 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // Score server (npm run server)
+      proxy: {
+        '/api': env.API_URL || 'http://localhost:3001',
+        // Online play (the game server runs inside the score server)
+        '/play': { target: env.API_URL || 'http://localhost:3001', ws: true },
+      },
     },
   };
 });